@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  applyEvaluations,
+  checkAlerts,
+  describeRule,
+  evaluateRule,
+  evaluateRules,
+  getAlertRules,
+  type AlertRule,
+} from "@/lib/alerts";
+import { dispatchAlerts, type Notifier } from "@/lib/notifiers";
+import { WeatherReading } from "@/lib/types";
+
+const START = Date.parse("2026-02-08T12:00:00Z");
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// The series are from February: check them as of shortly after
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(START + HOUR);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** One reading every 5 minutes from START with the given values. */
+function series(
+  values: { temperature?: number; humidity?: number }[]
+): WeatherReading[] {
+  return values.map((v, i) => ({
+    timestamp: new Date(START + i * 5 * MINUTE),
+    temperature: v.temperature ?? 20,
+    humidity: v.humidity ?? 50,
+  }));
+}
+
+const HUMID: AlertRule = {
+  id: "humid",
+  metric: "humidity",
+  condition: "above",
+  threshold: 65,
+  durationMinutes: 30,
+};
+
+const COLD: AlertRule = {
+  id: "cold",
+  metric: "temperature",
+  condition: "below",
+  threshold: 16,
+};
+
+const RATE: AlertRule = {
+  id: "rate",
+  metric: "temperature",
+  condition: "rate",
+  threshold: 2,
+};
+
+// ─── evaluateRule ───────────────────────────────────────────────────────────
+
+describe("evaluateRule", () => {
+  it("does not fire without readings", () => {
+    expect(evaluateRule(COLD, []).firing).toBe(false);
+  });
+
+  it("stops firing once the sensor has gone quiet", () => {
+    const cold = series([{ temperature: 14 }]);
+
+    expect(evaluateRule(COLD, cold, new Date(START + 12 * HOUR)).firing).toBe(
+      true
+    );
+    expect(
+      evaluateRule(COLD, cold, new Date(START + 14 * HOUR))
+    ).toMatchObject({ firing: false, stale: true, value: null });
+  });
+
+  it("fires immediately for rules without a duration", () => {
+    const result = evaluateRule(COLD, series([{ temperature: 15.5 }]));
+    expect(result.firing).toBe(true);
+    expect(result.value).toBe(15.5);
+  });
+
+  it("waits until the condition has held for durationMinutes", () => {
+    // 66% for 25 minutes (6 readings) is not enough…
+    const short = series([
+      { humidity: 60 },
+      ...Array.from({ length: 6 }, () => ({ humidity: 66 })),
+    ]);
+    const shortResult = evaluateRule(HUMID, short);
+    expect(shortResult.firing).toBe(false);
+    expect(shortResult.since).toEqual(short[1].timestamp);
+
+    // …but 30 minutes (7 readings) is
+    const long = series([
+      { humidity: 60 },
+      ...Array.from({ length: 7 }, () => ({ humidity: 66 })),
+    ]);
+    expect(evaluateRule(HUMID, long).firing).toBe(true);
+  });
+
+  it("resets the duration when the condition breaks", () => {
+    const readings = series([
+      ...Array.from({ length: 7 }, () => ({ humidity: 70 })),
+      { humidity: 60 },
+      { humidity: 70 },
+    ]);
+    expect(evaluateRule(HUMID, readings).firing).toBe(false);
+  });
+
+  it("measures the rate of change over the trailing hour", () => {
+    // 13 readings = one hour; temperature climbs 0.25°C per reading (3°C/h)
+    const rising = series(
+      Array.from({ length: 13 }, (_, i) => ({ temperature: 18 + i * 0.25 }))
+    );
+    const result = evaluateRule(RATE, rising);
+    expect(result.firing).toBe(true);
+    expect(result.value).toBeCloseTo(3);
+
+    const steady = series(
+      Array.from({ length: 13 }, (_, i) => ({ temperature: 18 + i * 0.1 }))
+    );
+    expect(evaluateRule(RATE, steady).firing).toBe(false);
+  });
+
+  it("needs an hour of history to compute a rate", () => {
+    const result = evaluateRule(
+      RATE,
+      series([{ temperature: 10 }, { temperature: 20 }])
+    );
+    expect(result.firing).toBe(false);
+    expect(result.value).toBeNull();
+  });
+});
+
+// ─── applyEvaluations ───────────────────────────────────────────────────────
+
+describe("applyEvaluations", () => {
+  const now = new Date("2026-02-08T13:00:00Z");
+
+  it("reports a transition only when the firing state changes", () => {
+    const cold = series([{ temperature: 15 }]);
+    const warm = series([{ temperature: 20 }]);
+
+    const first = applyEvaluations(
+      { rules: {} },
+      [evaluateRule(COLD, cold)],
+      now
+    );
+    expect(first.transitions.map((t) => t.kind)).toEqual(["triggered"]);
+
+    const second = applyEvaluations(
+      first.state,
+      [evaluateRule(COLD, cold)],
+      now
+    );
+    expect(second.transitions).toHaveLength(0);
+
+    const third = applyEvaluations(
+      second.state,
+      [evaluateRule(COLD, warm)],
+      now
+    );
+    expect(third.transitions.map((t) => t.kind)).toEqual(["resolved"]);
+    expect(third.state.rules.cold.firing).toBe(false);
+  });
+});
+
+// ─── getAlertRules / describeRule ───────────────────────────────────────────
+
+describe("getAlertRules", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns no rules when unset", () => {
+    vi.stubEnv("ALERT_RULES", "");
+    expect(getAlertRules()).toEqual([]);
+  });
+
+  it("parses valid rules and skips invalid ones", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv(
+      "ALERT_RULES",
+      JSON.stringify([HUMID, { id: "bad", metric: "pressure" }])
+    );
+    expect(getAlertRules()).toEqual([HUMID]);
+  });
+
+  it("returns no rules for malformed JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv("ALERT_RULES", "[{");
+    expect(getAlertRules()).toEqual([]);
+  });
+});
+
+describe("describeRule", () => {
+  it("builds a readable description", () => {
+    expect(describeRule(HUMID)).toBe("humidity > 65% for 30 min");
+    expect(describeRule(COLD)).toBe("temperature < 16°C");
+    expect(describeRule(RATE)).toBe("temperature changing > 2°C/hour");
+    expect(describeRule({ ...COLD, name: "Too cold" })).toBe("Too cold");
+  });
+});
+
+// ─── dispatch and checkAlerts ───────────────────────────────────────────────
+
+describe("dispatchAlerts", () => {
+  it("keeps sending when one channel fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const ok = { name: "ok", send: vi.fn(async () => {}) };
+    const broken = {
+      name: "broken",
+      send: vi.fn(async () => {
+        throw new Error("down");
+      }),
+    };
+
+    const { transitions } = applyEvaluations({ rules: {} }, [
+      evaluateRule(COLD, series([{ temperature: 10 }])),
+    ]);
+    await dispatchAlerts(transitions, [broken, ok]);
+
+    expect(ok.send).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("evaluateRules", () => {
+  const withSensor = (readings: WeatherReading[], sensor: string) =>
+    readings.map((r) => ({ ...r, sensor }));
+
+  it("checks each sensor on its own", () => {
+    const readings = [
+      ...withSensor(series([{ temperature: 14 }]), "garage"),
+      ...withSensor(series([{ temperature: 21 }]), "bedroom"),
+    ];
+    const evaluations = evaluateRules([COLD], readings);
+
+    expect(evaluations.map((e) => [e.sensor, e.firing])).toEqual([
+      ["garage", true],
+      ["bedroom", false],
+    ]);
+    const { state } = applyEvaluations({ rules: {} }, evaluations);
+    expect(Object.keys(state.rules)).toEqual(["cold:garage", "cold:bedroom"]);
+  });
+
+  it("limits a rule to its sensor when one is set", () => {
+    const readings = [
+      ...withSensor(series([{ temperature: 14 }]), "garage"),
+      ...withSensor(series([{ temperature: 21 }]), "bedroom"),
+    ];
+    const [only, ...rest] = evaluateRules(
+      [{ ...COLD, sensor: "bedroom" }],
+      readings
+    );
+    expect(rest).toHaveLength(0);
+    expect(only.sensor).toBe("bedroom");
+    expect(only.firing).toBe(false);
+  });
+});
+
+describe("checkAlerts", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), "alerts-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("notifies once per transition across checks", async () => {
+    const statePath = path.join(tmpDir, "state.json");
+    const send = vi.fn(async () => {});
+    const notifier: Notifier = { name: "test", send };
+    const cold = series([{ temperature: 14 }]);
+
+    const active = await checkAlerts(cold, [COLD], [notifier], statePath);
+    expect(active).toHaveLength(1);
+    expect(active[0].ruleId).toBe("cold");
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await checkAlerts(cold, [COLD], [notifier], statePath);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    const warm = series([{ temperature: 21 }]);
+    expect(await checkAlerts(warm, [COLD], [notifier], statePath)).toEqual([]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1]).toMatchObject([{ kind: "resolved" }]);
+  });
+
+  it("resolves alerts from sensors that stopped reporting", async () => {
+    const statePath = path.join(tmpDir, "state.json");
+    const send = vi.fn(async () => {});
+    const notifier: Notifier = { name: "test", send };
+    const cold = series([{ temperature: 14 }]);
+    await checkAlerts(cold, [COLD], [notifier], statePath);
+
+    vi.setSystemTime(START + 2 * 24 * HOUR);
+
+    expect(await checkAlerts(cold, [COLD], [notifier], statePath)).toEqual([]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[1]).toMatchObject([
+      { kind: "resolved", message: expect.stringContaining("no recent") },
+    ]);
+  });
+});
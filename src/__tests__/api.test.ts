@@ -0,0 +1,256 @@
+import { describe, it, expect } from "vitest";
+import {
+  BadRequestError,
+  UnauthorizedError,
+  UnavailableError,
+  assertDataAvailable,
+  assertSecret,
+  assertBearerToken,
+  parseDateParam,
+  parseDateKeyParam,
+  parseTimestampsParam,
+  parseEnumParam,
+  parsePositiveIntParam,
+  assertOrderedRange,
+  etagFor,
+  jsonWithETag,
+  errorResponse,
+} from "@/lib/api";
+
+function params(query: string) {
+  return new URLSearchParams(query);
+}
+
+// ─── parseDateParam ─────────────────────────────────────────────────────────
+
+describe("parseDateParam", () => {
+  it("returns undefined when absent or empty", () => {
+    expect(parseDateParam(params(""), "from")).toBeUndefined();
+    expect(parseDateParam(params("from="), "from")).toBeUndefined();
+  });
+
+  it("parses ISO timestamps", () => {
+    const date = parseDateParam(params("from=2026-02-08T12:00:00Z"), "from");
+    expect(date?.toISOString()).toBe("2026-02-08T12:00:00.000Z");
+  });
+
+  it("rejects unparseable values", () => {
+    expect(() => parseDateParam(params("from=yesterday"), "from")).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+// ─── parseTimestampsParam ───────────────────────────────────────────────────
+
+describe("parseTimestampsParam", () => {
+  const since = (value: string) =>
+    params(`since=${encodeURIComponent(value)}`);
+
+  it("normalizes each timestamp", () => {
+    expect(
+      parseTimestampsParam(since('{"attic":"2026-02-08T12:00:00Z"}'), "since")
+    ).toEqual({ attic: "2026-02-08T12:00:00.000Z" });
+    expect(parseTimestampsParam(params(""), "since")).toBeUndefined();
+  });
+
+  it("rejects anything but an object of dates", () => {
+    for (const value of ["2026-02-08T12:00:00Z", "[]", '{"a":"soon"}']) {
+      expect(() => parseTimestampsParam(since(value), "since")).toThrow(
+        BadRequestError
+      );
+    }
+  });
+});
+
+// ─── parseDateKeyParam ──────────────────────────────────────────────────────
+
+describe("parseDateKeyParam", () => {
+  it("accepts YYYY-MM-DD", () => {
+    expect(parseDateKeyParam(params("to=2026-02-08"), "to")).toBe(
+      "2026-02-08"
+    );
+  });
+
+  it("rejects other formats", () => {
+    expect(() => parseDateKeyParam(params("to=02/08/2026"), "to")).toThrow(
+      BadRequestError
+    );
+    expect(() => parseDateKeyParam(params("to=2026-13-40"), "to")).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+// ─── parseEnumParam ─────────────────────────────────────────────────────────
+
+describe("parseEnumParam", () => {
+  const allowed = ["24h", "7d"] as const;
+
+  it("falls back to the default when absent", () => {
+    expect(parseEnumParam(params(""), "range", allowed, "7d")).toBe("7d");
+  });
+
+  it("returns allowed values", () => {
+    expect(parseEnumParam(params("range=24h"), "range", allowed, "7d")).toBe(
+      "24h"
+    );
+  });
+
+  it("rejects values outside the allowed set", () => {
+    expect(() =>
+      parseEnumParam(params("range=1y"), "range", allowed, "7d")
+    ).toThrow(/expected one of 24h, 7d/);
+  });
+});
+
+// ─── parsePositiveIntParam ──────────────────────────────────────────────────
+
+describe("parsePositiveIntParam", () => {
+  it("returns undefined when absent", () => {
+    expect(parsePositiveIntParam(params(""), "points", 100)).toBeUndefined();
+  });
+
+  it("parses whole numbers within bounds", () => {
+    expect(parsePositiveIntParam(params("points=50"), "points", 100)).toBe(50);
+  });
+
+  it("rejects fractions, zero and values above the maximum", () => {
+    for (const raw of ["1.5", "0", "101", "abc"]) {
+      expect(() =>
+        parsePositiveIntParam(params(`points=${raw}`), "points", 100)
+      ).toThrow(BadRequestError);
+    }
+  });
+});
+
+// ─── assertOrderedRange ─────────────────────────────────────────────────────
+
+describe("assertOrderedRange", () => {
+  it("allows open and ordered ranges", () => {
+    expect(() => assertOrderedRange(undefined, new Date())).not.toThrow();
+    expect(() => assertOrderedRange("2026-02-01", "2026-02-08")).not.toThrow();
+  });
+
+  it("rejects reversed ranges", () => {
+    expect(() => assertOrderedRange("2026-02-08", "2026-02-01")).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+// ─── ETags and responses ────────────────────────────────────────────────────
+
+describe("jsonWithETag", () => {
+  const body = { lastUpdated: "2026-02-08T12:15:21.000Z", count: 2 };
+
+  it("builds a weak ETag that changes with the body", () => {
+    expect(etagFor(body)).toMatch(/^W\/"[\w-]+"$/);
+    expect(etagFor({ ...body })).toBe(etagFor(body));
+    // A late reading from another sensor leaves lastUpdated unchanged
+    expect(etagFor({ ...body, count: 3 })).not.toBe(etagFor(body));
+  });
+
+  it("returns JSON with an ETag header", async () => {
+    const res = jsonWithETag(new Request("http://localhost/api/stats"), body);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("ETag")).toBe(etagFor(body));
+    expect(await res.json()).toEqual(body);
+  });
+
+  it("returns 304 when If-None-Match matches", () => {
+    const res = jsonWithETag(
+      new Request("http://localhost/api/stats", {
+        headers: { "If-None-Match": etagFor(body) },
+      }),
+      body
+    );
+    expect(res.status).toBe(304);
+  });
+});
+
+// ─── assertSecret ───────────────────────────────────────────────────────────
+
+describe("assertSecret", () => {
+  it("accepts only the configured secret", () => {
+    expect(() => assertSecret("s3cret", "s3cret")).not.toThrow();
+    expect(() => assertSecret("s3cre", "s3cret")).toThrow(UnauthorizedError);
+    expect(() => assertSecret(null, "s3cret")).toThrow(UnauthorizedError);
+  });
+
+  it("rejects everything when no secret is configured", () => {
+    expect(() => assertSecret("", undefined)).toThrow(UnauthorizedError);
+    expect(() => assertSecret("anything", "")).toThrow(UnauthorizedError);
+  });
+});
+
+// ─── assertBearerToken ──────────────────────────────────────────────────────
+
+describe("assertBearerToken", () => {
+  function request(authorization?: string) {
+    return new Request("http://localhost/api/ingest", {
+      method: "POST",
+      headers: authorization ? { authorization } : {},
+    });
+  }
+
+  it("accepts the configured secret", () => {
+    expect(() =>
+      assertBearerToken(request("Bearer s3cret"), "s3cret")
+    ).not.toThrow();
+  });
+
+  it("rejects a missing or wrong token", () => {
+    expect(() => assertBearerToken(request(), "s3cret")).toThrow(
+      UnauthorizedError
+    );
+    expect(() => assertBearerToken(request("Bearer nope"), "s3cret")).toThrow(
+      UnauthorizedError
+    );
+  });
+
+  it("rejects everything when no secret is configured", () => {
+    expect(() => assertBearerToken(request("Bearer "), undefined)).toThrow(
+      UnauthorizedError
+    );
+  });
+});
+
+// ─── assertDataAvailable ────────────────────────────────────────────────────
+
+describe("assertDataAvailable", () => {
+  const quota = { kind: "quota" as const };
+
+  it("rejects a failed sync with nothing to show", () => {
+    expect(() => assertDataAvailable({ error: quota, readings: [] })).toThrow(
+      UnavailableError
+    );
+  });
+
+  it("allows older data served in the meantime", () => {
+    expect(() =>
+      assertDataAvailable({ error: quota, readings: [{}] })
+    ).not.toThrow();
+    expect(() =>
+      assertDataAvailable({ error: null, readings: [] })
+    ).not.toThrow();
+  });
+});
+
+describe("errorResponse", () => {
+  it("maps BadRequestError to 400", async () => {
+    const res = errorResponse(new BadRequestError("bad"));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "bad" });
+  });
+
+  it("maps UnauthorizedError to 401", () => {
+    expect(errorResponse(new UnauthorizedError("no")).status).toBe(401);
+  });
+
+  it("maps UnavailableError to 503 with the kind of failure", async () => {
+    const res = errorResponse(new UnavailableError("quota"));
+    expect(res.status).toBe(503);
+    expect(await res.json()).toMatchObject({ kind: "quota" });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  applyCalibrations,
+  calibrationFor,
+  describeCalibration,
+  getCalibrations,
+  type Calibration,
+} from "@/lib/calibration";
+import { cleanReadings } from "@/lib/cleaning";
+import { reading } from "./helpers";
+
+const HISTORY: Calibration[] = [
+  {
+    effectiveFrom: "2026-01-01T00:00:00.000Z",
+    temperatureOffset: -1.5,
+    humidityOffset: 4,
+  },
+  {
+    effectiveFrom: "2026-02-01T00:00:00.000Z",
+    temperatureOffset: -1,
+  },
+  {
+    sensor: "office",
+    effectiveFrom: "2026-01-15T00:00:00.000Z",
+    temperatureGain: 1.1,
+  },
+];
+
+// ─── getCalibrations ────────────────────────────────────────────────────────
+
+describe("getCalibrations", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns none when unset", () => {
+    vi.stubEnv("CALIBRATIONS", "");
+    expect(getCalibrations()).toEqual([]);
+  });
+
+  it("resolves dates in the station zone and sorts oldest first", () => {
+    vi.stubEnv(
+      "CALIBRATIONS",
+      JSON.stringify([
+        { effectiveFrom: "2026-02-01", temperatureOffset: -1 },
+        { effectiveFrom: "2026-01-01T06:00:00Z", humidityOffset: 4 },
+      ])
+    );
+    const calibrations = getCalibrations("America/New_York");
+
+    expect(calibrations.map((c) => c.effectiveFrom)).toEqual([
+      "2026-01-01T06:00:00.000Z",
+      "2026-02-01T05:00:00.000Z",
+    ]);
+  });
+
+  it("skips invalid entries", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv(
+      "CALIBRATIONS",
+      JSON.stringify([
+        { effectiveFrom: "soon", temperatureOffset: -1 },
+        { effectiveFrom: "2026-01-01", temperatureOffset: "-1" },
+        { effectiveFrom: "2026-01-01", humidityGain: 1.05 },
+      ])
+    );
+    expect(getCalibrations("UTC")).toHaveLength(1);
+  });
+});
+
+// ─── calibrationFor / applyCalibrations ─────────────────────────────────────
+
+describe("calibrationFor", () => {
+  it("uses the latest calibration that had started", () => {
+    const at = (iso: string) =>
+      calibrationFor(HISTORY, "bedroom", new Date(iso));
+
+    expect(at("2025-12-31T00:00:00Z")).toBeNull();
+    expect(at("2026-01-20T00:00:00Z")?.temperatureOffset).toBe(-1.5);
+    expect(at("2026-02-02T00:00:00Z")?.temperatureOffset).toBe(-1);
+  });
+
+  it("prefers a calibration for the sensor itself", () => {
+    const c = calibrationFor(HISTORY, "office", new Date("2026-02-02"));
+    expect(c?.temperatureGain).toBe(1.1);
+  });
+});
+
+describe("applyCalibrations", () => {
+  it("corrects each reading with the calibration of its time", () => {
+    const [before, january, february] = applyCalibrations(
+      [
+        reading("2025-12-31T12:00:00Z"),
+        reading("2026-01-20T12:00:00Z"),
+        reading("2026-02-02T12:00:00Z"),
+      ],
+      HISTORY
+    );
+
+    expect(before).toMatchObject({ temperature: 20, humidity: 50 });
+    expect(january).toMatchObject({ temperature: 18.5, humidity: 54 });
+    expect(february).toMatchObject({ temperature: 19, humidity: 50 });
+  });
+
+  it("applies gain before offset", () => {
+    const [r] = applyCalibrations(
+      [{ ...reading("2026-03-01T00:00:00Z"), humidity: 98 }],
+      [
+        {
+          effectiveFrom: "2026-01-01T00:00:00.000Z",
+          temperatureGain: 1.1,
+          temperatureOffset: -1,
+          humidityOffset: 4,
+        },
+      ]
+    );
+    expect(r.temperature).toBe(21);
+    expect(r.humidity).toBe(102);
+  });
+
+  it("leaves out-of-range glitches for cleaning to flag", () => {
+    const [r] = applyCalibrations(
+      [{ ...reading("2026-01-20T00:00:00Z"), humidity: 140 }],
+      HISTORY
+    );
+
+    expect(r.humidity).toBe(144);
+    expect(cleanReadings([r]).flagged).toMatchObject([
+      { reason: "out-of-range", metrics: ["humidity"] },
+    ]);
+  });
+});
+
+describe("describeCalibration", () => {
+  it("lists gains and signed offsets", () => {
+    expect(describeCalibration(HISTORY[0])).toBe("−1.5°C, +4%");
+    expect(describeCalibration(HISTORY[2])).toBe("×1.1");
+    expect(describeCalibration({ effectiveFrom: "2026-01-01" })).toBe(
+      "no correction"
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  cleanReadings,
+  DEFAULT_CLEANING,
+  getCleaningConfig,
+  hampelOutliers,
+} from "@/lib/cleaning";
+import { WeatherReading } from "@/lib/types";
+
+const MINUTE = 60 * 1000;
+
+/** Readings every 5 minutes with the given values. */
+function series(
+  values: { temperature?: number; humidity?: number }[],
+  sensor?: string
+): WeatherReading[] {
+  const t0 = Date.parse("2026-02-08T00:00:00Z");
+  return values.map((v, i) => ({
+    timestamp: new Date(t0 + i * 5 * MINUTE),
+    temperature: v.temperature ?? 20,
+    humidity: v.humidity ?? 50,
+    sensor,
+  }));
+}
+
+const repeat = <T>(value: T, n: number): T[] => Array(n).fill(value);
+
+// ─── hampelOutliers ─────────────────────────────────────────────────────────
+
+describe("hampelOutliers", () => {
+  it("flags a single sample far from its neighbours", () => {
+    const values = [50, 51, 50, 95, 50, 51, 50];
+    expect([...hampelOutliers(values, 3, 3, 5)]).toEqual([3]);
+  });
+
+  it("ignores steps no bigger than the minimum spread", () => {
+    const values = [50, 50, 50, 51, 51, 51, 51];
+    expect(hampelOutliers(values, 3, 3, 5).size).toBe(0);
+  });
+});
+
+// ─── cleanReadings ──────────────────────────────────────────────────────────
+
+describe("cleanReadings", () => {
+  it("removes values outside the plausible range", () => {
+    const { readings, flagged } = cleanReadings(
+      series([{}, { temperature: -60 }, {}])
+    );
+
+    expect(readings).toHaveLength(2);
+    expect(flagged).toHaveLength(1);
+    expect(flagged[0]).toMatchObject({
+      reason: "out-of-range",
+      metrics: ["temperature"],
+    });
+  });
+
+  it("keeps sub-zero readings by default", () => {
+    const values = [-3.2, -3.0, -2.9, -3.1].map((temperature) => ({
+      temperature,
+    }));
+    const { readings, flagged } = cleanReadings(series(values));
+
+    expect(readings).toHaveLength(4);
+    expect(flagged).toEqual([]);
+  });
+
+  it("removes one-sample spikes and keeps the rest", () => {
+    const values = [...repeat({}, 5), { humidity: 95 }, ...repeat({}, 5)];
+    const { readings, flagged } = cleanReadings(series(values));
+
+    expect(readings).toHaveLength(10);
+    expect(flagged).toHaveLength(1);
+    expect(flagged[0]).toMatchObject({ reason: "spike", humidity: 95 });
+  });
+
+  it("keeps genuine sustained changes", () => {
+    const values = [...repeat({}, 6), ...repeat({ temperature: 26 }, 6)];
+    expect(cleanReadings(series(values)).flagged).toHaveLength(0);
+  });
+
+  it("compares each sensor only with itself", () => {
+    const readings = [
+      ...series(repeat({ humidity: 40 }, 7), "office"),
+      ...series(repeat({ humidity: 80 }, 7), "bathroom"),
+    ];
+    expect(cleanReadings(readings).flagged).toHaveLength(0);
+  });
+
+  it("passes everything through when disabled", () => {
+    const readings = series([{}, { temperature: -60 }, {}]);
+    const result = cleanReadings(readings, {
+      ...DEFAULT_CLEANING,
+      enabled: false,
+    });
+    expect(result.readings).toBe(readings);
+    expect(result.flagged).toEqual([]);
+  });
+});
+
+// ─── getCleaningConfig ──────────────────────────────────────────────────────
+
+describe("getCleaningConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("uses the defaults when unset", () => {
+    vi.stubEnv("CLEANING_CONFIG", "");
+    expect(getCleaningConfig()).toEqual(DEFAULT_CLEANING);
+  });
+
+  it("overrides only the given settings", () => {
+    vi.stubEnv(
+      "CLEANING_CONFIG",
+      '{"range":{"temperature":{"min":-10}},"threshold":4}'
+    );
+    const config = getCleaningConfig();
+
+    expect(config.range.temperature).toEqual({ min: -10, max: 80 });
+    expect(config.range.humidity).toEqual(DEFAULT_CLEANING.range.humidity);
+    expect(config.threshold).toBe(4);
+  });
+
+  it("keeps the defaults on invalid JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv("CLEANING_CONFIG", "{");
+    expect(getCleaningConfig()).toEqual(DEFAULT_CLEANING);
+  });
+});
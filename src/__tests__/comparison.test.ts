@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  alignByOffset,
+  comparePeriods,
+  compareRecentDays,
+  formatDelta,
+  summarizePeriod,
+} from "@/lib/comparison";
+import { WeatherReading } from "@/lib/types";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function reading(iso: string, temperature: number, humidity = 50) {
+  return { timestamp: new Date(iso), temperature, humidity };
+}
+
+// ─── summarizePeriod / comparePeriods ───────────────────────────────────────
+
+describe("summarizePeriod", () => {
+  it("returns null for an empty period", () => {
+    expect(summarizePeriod([])).toBeNull();
+  });
+
+  it("weights bucket averages by count and keeps their extremes", () => {
+    const summary = summarizePeriod([
+      {
+        temperature: 20,
+        humidity: 50,
+        minTemperature: 18,
+        maxTemperature: 23,
+        minHumidity: 45,
+        maxHumidity: 55,
+        count: 3,
+      },
+      { temperature: 24, humidity: 70 },
+    ])!;
+
+    expect(summary.avgTemperature).toBe(21);
+    expect(summary.avgHumidity).toBe(55);
+    expect(summary.minTemperature).toBe(18);
+    expect(summary.maxTemperature).toBe(24);
+    expect(summary.maxHumidity).toBe(70);
+  });
+});
+
+describe("comparePeriods", () => {
+  it("reports current minus previous", () => {
+    const comparison = comparePeriods(
+      [
+        { temperature: 22, humidity: 40 },
+        { temperature: 24, humidity: 60 },
+      ],
+      [
+        { temperature: 20, humidity: 45 },
+        { temperature: 21, humidity: 65 },
+      ]
+    )!;
+
+    expect(comparison.delta.avgTemperature).toBe(2.5);
+    expect(comparison.delta.maxTemperature).toBe(3);
+    expect(comparison.delta.minHumidity).toBe(-5);
+  });
+
+  it("needs readings in both periods", () => {
+    expect(comparePeriods([{ temperature: 20, humidity: 50 }], [])).toBeNull();
+  });
+});
+
+// ─── compareRecentDays ──────────────────────────────────────────────────────
+
+describe("compareRecentDays", () => {
+  it("splits the two weeks before the latest reading", () => {
+    const readings: WeatherReading[] = [
+      reading("2026-01-01T12:00:00Z", 10), // too old
+      reading("2026-01-27T12:00:00Z", 19),
+      reading("2026-02-02T12:00:00Z", 21),
+      reading("2026-02-08T12:00:00Z", 23),
+    ];
+    const comparison = compareRecentDays(readings)!;
+
+    expect(comparison.previous.avgTemperature).toBe(19);
+    expect(comparison.current.avgTemperature).toBe(22);
+    expect(comparison.delta.avgTemperature).toBe(3);
+  });
+});
+
+// ─── alignByOffset ──────────────────────────────────────────────────────────
+
+describe("alignByOffset", () => {
+  const previous = [
+    "2026-02-01T00:00:00Z",
+    "2026-02-01T01:00:00Z",
+    "2026-02-01T02:00:00Z",
+  ].map((timestamp, i) => ({ timestamp, temperature: 20 + i }));
+
+  it("matches each time to the nearest sample one offset earlier", () => {
+    const matched = alignByOffset(
+      ["2026-02-08T00:10:00Z", "2026-02-08T01:50:00Z"],
+      previous,
+      7 * DAY,
+      HOUR / 2
+    );
+    expect(matched.map((m) => m?.temperature)).toEqual([20, 22]);
+  });
+
+  it("leaves times without a close enough sample unmatched", () => {
+    const matched = alignByOffset(
+      ["2026-02-08T05:00:00Z"],
+      previous,
+      7 * DAY,
+      HOUR / 2
+    );
+    expect(matched).toEqual([undefined]);
+  });
+});
+
+describe("formatDelta", () => {
+  it("always shows the sign", () => {
+    expect(formatDelta(0.8, "°C")).toBe("+0.8°C");
+    expect(formatDelta(-2, "%")).toBe("−2%");
+    expect(formatDelta(0, "%")).toBe("±0%");
+  });
+});
@@ -1,9 +1,18 @@
 import { describe, it, expect } from "vitest";
 import {
   parseCSV,
+  parseCSVWithDiagnostics,
+  fahrenheitToCelsius,
   mergeReadings,
+  groupBySensor,
   computeStats,
+  computeDailySummaries,
   filterByDateRange,
+  filterByWindow,
+  customRangeBounds,
+  presetToCustomRange,
+  shiftCustomRange,
+  averageByInterval,
   formatForChart,
 } from "@/lib/csv-parser";
 import { WeatherReading } from "@/lib/types";
@@ -41,9 +50,21 @@ describe("parseCSV", () => {
   it("parses timestamps into valid Date objects", () => {
     const readings = parseCSV(SAMPLE_CSV);
     expect(readings[0].timestamp).toBeInstanceOf(Date);
-    expect(readings[0].timestamp.getFullYear()).toBe(2026);
-    expect(readings[0].timestamp.getMonth()).toBe(1); // February = 1
-    expect(readings[0].timestamp.getDate()).toBe(8);
+    // Naive timestamps default to UTC, independent of the server's zone
+    expect(readings[0].timestamp.getUTCFullYear()).toBe(2026);
+    expect(readings[0].timestamp.getUTCMonth()).toBe(1); // February = 1
+    expect(readings[0].timestamp.getUTCDate()).toBe(8);
+    expect(readings[0].timestamp.getUTCHours()).toBe(12);
+  });
+
+  it("interprets timestamps in the given source time zone", () => {
+    const line = "2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C";
+    expect(parseCSV(line, "UTC")[0].timestamp.toISOString()).toBe(
+      "2026-02-08T12:00:21.000Z"
+    );
+    expect(parseCSV(line, "Europe/Berlin")[0].timestamp.toISOString()).toBe(
+      "2026-02-08T11:00:21.000Z"
+    );
   });
 
   it("skips header rows if present", () => {
@@ -84,6 +105,140 @@ not-a-date,Humidity: 59.00%  Temp: 18.10C
   });
 });
 
+// ─── parseCSV: signs and units ──────────────────────────────────────────────
+
+describe("parseCSV temperature variants", () => {
+  function parseTemp(data: string) {
+    const readings = parseCSV(`2026-02-08 12:00:21,${data}`);
+    expect(readings).toHaveLength(1);
+    return readings[0].temperature;
+  }
+
+  it("accepts negative Celsius values", () => {
+    expect(parseTemp("Humidity: 80.00%  Temp: -3.20C")).toBe(-3.2);
+  });
+
+  it("accepts an explicit plus sign", () => {
+    expect(parseTemp("Humidity: 80.00%  Temp: +4.50C")).toBe(4.5);
+  });
+
+  it("accepts lowercase units", () => {
+    expect(parseTemp("Humidity: 59.00%  Temp: 18.10c")).toBe(18.1);
+  });
+
+  it("accepts a degree sign and space before the unit", () => {
+    expect(parseTemp("Humidity: 59.00%  Temp: 18.10 °C")).toBe(18.1);
+  });
+
+  it("normalizes Fahrenheit to Celsius", () => {
+    expect(parseTemp("Humidity: 59.00%  Temp: 64.1F")).toBe(17.83);
+    expect(parseTemp("Humidity: 59.00%  Temp: 32.00F")).toBe(0);
+  });
+
+  it("normalizes negative Fahrenheit to Celsius", () => {
+    expect(parseTemp("Humidity: 70.00%  Temp: -4.00F")).toBe(-20);
+  });
+
+  it("still rejects temperatures without a unit", () => {
+    const line = "2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10";
+    expect(parseCSV(line)).toHaveLength(0);
+  });
+});
+
+describe("fahrenheitToCelsius", () => {
+  it("converts known points", () => {
+    expect(fahrenheitToCelsius(32)).toBe(0);
+    expect(fahrenheitToCelsius(212)).toBe(100);
+    expect(fahrenheitToCelsius(-40)).toBe(-40);
+  });
+});
+
+// ─── parseCSVWithDiagnostics ────────────────────────────────────────────────
+
+describe("parseCSVWithDiagnostics", () => {
+  it("counts accepted lines and ignores blanks and headers", () => {
+    const { readings, diagnostics } = parseCSVWithDiagnostics(
+      `Timestamp,Raw_Data\n\n${SAMPLE_CSV}`
+    );
+    expect(readings).toHaveLength(4);
+    expect(diagnostics).toEqual({
+      acceptedLines: 4,
+      rejectedLines: 0,
+      rejectReasons: {},
+      samples: [],
+    });
+  });
+
+  it("classifies each kind of rejected line", () => {
+    const messy = [
+      "2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C",
+      "2026-02-08 12:05:21,Failed to read from DHT sensor!",
+      "Failed to read from DHT sensor!",
+      "garbage line with no comma",
+      "not-a-date,Humidity: 59.00%  Temp: 18.10C",
+      "2026-02-08 12:10:21,Temp: 18.10C",
+      "2026-02-08 12:15:21,Humidity: 59.00%",
+      "2026-02-08 12:20:21,Humidity: ..%  Temp: 18.10C",
+    ].join("\n");
+
+    const { diagnostics } = parseCSVWithDiagnostics(messy);
+    expect(diagnostics.acceptedLines).toBe(1);
+    expect(diagnostics.rejectedLines).toBe(7);
+    expect(diagnostics.rejectReasons).toEqual({
+      "sensor-error": 2,
+      "missing-comma": 1,
+      "invalid-timestamp": 1,
+      "missing-humidity": 1,
+      "missing-temperature": 1,
+      "invalid-number": 1,
+    });
+  });
+
+  it("keeps the first few rejected lines as samples with line numbers", () => {
+    const lines = Array.from({ length: 8 }, () => "bad line");
+    lines.unshift("2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C");
+
+    const { diagnostics } = parseCSVWithDiagnostics(lines.join("\n"));
+    expect(diagnostics.rejectedLines).toBe(8);
+    expect(diagnostics.samples).toHaveLength(5);
+    expect(diagnostics.samples[0]).toEqual({
+      lineNumber: 2,
+      reason: "missing-comma",
+      line: "bad line",
+    });
+  });
+});
+
+// ─── parseCSV: sensors ──────────────────────────────────────────────────────
+
+describe("parseCSV sensors", () => {
+  it("leaves sensor unset when nothing names one", () => {
+    expect(parseCSV(SAMPLE_CSV)[0].sensor).toBeUndefined();
+  });
+
+  it("applies the default sensor passed in", () => {
+    const readings = parseCSV(SAMPLE_CSV, "UTC", "bedroom");
+    expect(readings.every((r) => r.sensor === "bedroom")).toBe(true);
+  });
+
+  it("reads a Sensor/Room token or trailing column from the line", () => {
+    const readings = parseCSV(
+      [
+        "2026-02-08 12:00:21,Sensor: bedroom Humidity: 59.00%  Temp: 18.10C",
+        "2026-02-08 12:00:22,Room: office Humidity: 55.00%  Temp: 20.00C",
+        "2026-02-08 12:00:23,Humidity: 50.00%  Temp: 21.00C,living-room",
+      ].join("\n"),
+      "UTC",
+      "fallback"
+    );
+    expect(readings.map((r) => r.sensor)).toEqual([
+      "bedroom",
+      "office",
+      "living-room",
+    ]);
+  });
+});
+
 // ─── mergeReadings ──────────────────────────────────────────────────────────
 
 describe("mergeReadings", () => {
@@ -109,12 +264,36 @@ describe("mergeReadings", () => {
     expect(merged).toHaveLength(4); // same 4 timestamps, no duplicates
   });
 
+  it("keeps readings from different sensors at the same timestamp", () => {
+    const merged = mergeReadings([
+      parseCSV(SAMPLE_CSV, "UTC", "living-room"),
+      parseCSV(SAMPLE_CSV, "UTC", "bedroom"),
+    ]);
+    expect(merged).toHaveLength(8);
+  });
+
   it("handles empty arrays", () => {
     expect(mergeReadings([])).toHaveLength(0);
     expect(mergeReadings([[], []])).toHaveLength(0);
   });
 });
 
+// ─── groupBySensor ──────────────────────────────────────────────────────────
+
+describe("groupBySensor", () => {
+  it("splits readings by sensor, defaulting unnamed ones to main", () => {
+    const groups = groupBySensor(
+      mergeReadings([
+        parseCSV(SAMPLE_CSV),
+        parseCSV(SAMPLE_CSV_2, "UTC", "bedroom"),
+      ])
+    );
+    expect([...groups.keys()].sort()).toEqual(["bedroom", "main"]);
+    expect(groups.get("main")).toHaveLength(4);
+    expect(groups.get("bedroom")).toHaveLength(2);
+  });
+});
+
 // ─── computeStats ───────────────────────────────────────────────────────────
 
 describe("computeStats", () => {
@@ -160,6 +339,106 @@ describe("computeStats", () => {
   });
 });
 
+// ─── computeDailySummaries ──────────────────────────────────────────────────
+
+describe("computeDailySummaries", () => {
+  function reading(iso: string, temperature: number, humidity: number) {
+    return { timestamp: new Date(iso), temperature, humidity };
+  }
+
+  it("returns an empty array for no readings", () => {
+    expect(computeDailySummaries([], "UTC")).toEqual([]);
+  });
+
+  it("groups readings by calendar day with min/max/avg", () => {
+    const summaries = computeDailySummaries(
+      [
+        reading("2026-02-08T08:00:00Z", 18, 60),
+        reading("2026-02-08T14:00:00Z", 21, 50),
+        reading("2026-02-09T09:00:00Z", 17, 62),
+      ],
+      "UTC"
+    );
+
+    expect(summaries).toEqual([
+      {
+        date: "2026-02-08",
+        avgTemperature: 19.5,
+        avgHumidity: 55,
+        minTemperature: 18,
+        maxTemperature: 21,
+        minHumidity: 50,
+        maxHumidity: 60,
+        readingCount: 2,
+      },
+      {
+        date: "2026-02-09",
+        avgTemperature: 17,
+        avgHumidity: 62,
+        minTemperature: 17,
+        maxTemperature: 17,
+        minHumidity: 62,
+        maxHumidity: 62,
+        readingCount: 1,
+      },
+    ]);
+  });
+
+  it("uses the given time zone to decide day boundaries", () => {
+    // 03:00 UTC on Feb 9 is still Feb 8 in New York (UTC-5)
+    const readings = [
+      reading("2026-02-08T20:00:00Z", 18, 60),
+      reading("2026-02-09T03:00:00Z", 19, 58),
+    ];
+
+    expect(computeDailySummaries(readings, "UTC")).toHaveLength(2);
+
+    const ny = computeDailySummaries(readings, "America/New_York");
+    expect(ny).toHaveLength(1);
+    expect(ny[0].date).toBe("2026-02-08");
+    expect(ny[0].readingCount).toBe(2);
+  });
+
+  it("handles the 23- and 25-hour days around DST changes", () => {
+    // New York springs forward on 2026-03-08 and falls back on 2026-11-01;
+    // readings every hour across each local day belong to that day only
+    function hourly(fromIso: string, hours: number) {
+      return Array.from({ length: hours }, (_, i) =>
+        reading(
+          new Date(Date.parse(fromIso) + i * 60 * 60 * 1000).toISOString(),
+          20,
+          50
+        )
+      );
+    }
+
+    const spring = computeDailySummaries(
+      hourly("2026-03-08T05:00:00Z", 23), // local midnight EST
+      "America/New_York"
+    );
+    expect(spring).toHaveLength(1);
+    expect(spring[0].readingCount).toBe(23);
+
+    const fall = computeDailySummaries(
+      hourly("2026-11-01T04:00:00Z", 25), // local midnight EDT
+      "America/New_York"
+    );
+    expect(fall).toHaveLength(1);
+    expect(fall[0].readingCount).toBe(25);
+  });
+
+  it("returns days in chronological order regardless of input order", () => {
+    const summaries = computeDailySummaries(
+      [
+        reading("2026-02-10T12:00:00Z", 18, 60),
+        reading("2026-02-08T12:00:00Z", 18, 60),
+      ],
+      "UTC"
+    );
+    expect(summaries.map((s) => s.date)).toEqual(["2026-02-08", "2026-02-10"]);
+  });
+});
+
 // ─── filterByDateRange ──────────────────────────────────────────────────────
 
 describe("filterByDateRange", () => {
@@ -200,6 +479,110 @@ describe("filterByDateRange", () => {
   });
 });
 
+// ─── custom ranges ──────────────────────────────────────────────────────────
+
+describe("custom date ranges", () => {
+  const at = (iso: string): WeatherReading => ({
+    timestamp: new Date(iso),
+    temperature: 20,
+    humidity: 50,
+  });
+
+  it("filters to an inclusive window", () => {
+    const readings = [
+      at("2026-02-01T00:00:00Z"),
+      at("2026-02-02T12:00:00Z"),
+      at("2026-02-03T00:00:00Z"),
+    ];
+    const from = new Date("2026-02-02T00:00:00Z");
+    const to = new Date("2026-02-03T00:00:00Z");
+    expect(filterByWindow(readings, from, to)).toHaveLength(2);
+    expect(filterByWindow(readings, undefined, from)).toHaveLength(1);
+    expect(filterByWindow(readings)).toHaveLength(3);
+  });
+
+  it("spans whole days in the given time zone", () => {
+    const { from, to } = customRangeBounds(
+      { from: "2026-02-02", to: "2026-02-03" },
+      "Pacific/Auckland"
+    );
+    expect(from.toISOString()).toBe("2026-02-01T11:00:00.000Z");
+    expect(to.toISOString()).toBe("2026-02-03T10:59:59.999Z");
+  });
+
+  it("turns presets into the days ending today", () => {
+    const now = new Date("2026-02-08T12:00:00Z");
+    expect(presetToCustomRange("24h", "UTC", now)).toEqual({
+      from: "2026-02-08",
+      to: "2026-02-08",
+    });
+    expect(presetToCustomRange("7d", "UTC", now)).toEqual({
+      from: "2026-02-02",
+      to: "2026-02-08",
+    });
+  });
+
+  it("shifts a range by its own length", () => {
+    const week = { from: "2026-02-02", to: "2026-02-08" };
+    expect(shiftCustomRange(week, -1)).toEqual({
+      from: "2026-01-26",
+      to: "2026-02-01",
+    });
+    expect(shiftCustomRange(week, 1)).toEqual({
+      from: "2026-02-09",
+      to: "2026-02-15",
+    });
+  });
+});
+
+// ─── averageByInterval ──────────────────────────────────────────────────────
+
+describe("averageByInterval", () => {
+  const HOUR = 60 * 60 * 1000;
+
+  it("averages readings that fall in the same bucket", () => {
+    const readings = parseCSV(SAMPLE_CSV);
+    const hourly = averageByInterval(readings, HOUR);
+    expect(hourly).toHaveLength(1);
+    expect(hourly[0].temperature).toBe(18.2); // 18.15 rounded
+    expect(hourly[0].humidity).toBe(58.8); // 58.75 rounded
+  });
+
+  it("keeps each bucket's extremes and reading count", () => {
+    const [bucket] = averageByInterval(parseCSV(SAMPLE_CSV), HOUR);
+    expect(bucket.minTemperature).toBe(18.1);
+    expect(bucket.maxTemperature).toBe(18.2);
+    expect(bucket.minHumidity).toBe(58);
+    expect(bucket.maxHumidity).toBe(59);
+    expect(bucket.count).toBe(4);
+  });
+
+  it("stamps each bucket with its start time", () => {
+    const readings = mergeReadings([
+      parseCSV(SAMPLE_CSV),
+      parseCSV(SAMPLE_CSV_2),
+    ]);
+    const hourly = averageByInterval(readings, HOUR);
+    expect(hourly).toHaveLength(2);
+    for (const r of hourly) {
+      expect(r.timestamp.getTime() % HOUR).toBe(0);
+    }
+  });
+
+  it("averages each sensor separately", () => {
+    const readings = mergeReadings([
+      parseCSV(SAMPLE_CSV, "UTC", "a"),
+      parseCSV(SAMPLE_CSV, "UTC", "b"),
+    ]);
+    const hourly = averageByInterval(readings, HOUR);
+    expect(hourly.map((r) => r.sensor).sort()).toEqual(["a", "b"]);
+  });
+
+  it("handles empty input", () => {
+    expect(averageByInterval([], HOUR)).toHaveLength(0);
+  });
+});
+
 // ─── formatForChart ─────────────────────────────────────────────────────────
 
 describe("formatForChart", () => {
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import path from "path";
+import {
+  filterChangedFiles,
+  getDataSource,
+} from "@/lib/data-source";
+import { createLocalSource } from "@/lib/local-source";
+import { createHttpSource } from "@/lib/http-source";
+import { parseCSV } from "@/lib/csv-parser";
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "csv");
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// ─── filterChangedFiles ─────────────────────────────────────────────────────
+
+describe("filterChangedFiles", () => {
+  it("keeps files modified after the cutoff or with unknown mtime", () => {
+    const files = [
+      { id: "a", name: "a", modifiedTime: "2026-02-01T00:00:00Z", size: 1 },
+      { id: "b", name: "b", modifiedTime: "2026-02-09T00:00:00Z", size: 1 },
+      { id: "c", name: "c", modifiedTime: null, size: null },
+    ];
+    const changed = filterChangedFiles(files, new Date("2026-02-05T00:00:00Z"));
+    expect(changed.map((f) => f.id)).toEqual(["b", "c"]);
+  });
+});
+
+// ─── local source ───────────────────────────────────────────────────────────
+
+describe("createLocalSource", () => {
+  it("lists only CSV files with size and mtime", async () => {
+    const files = await createLocalSource(FIXTURE_DIR).listFiles();
+    expect(files.map((f) => f.name).sort()).toEqual([
+      "weather_2026-02-08_12-00.csv",
+      "weather_2026-02-08_18-00.csv",
+    ]);
+    for (const f of files) {
+      expect(f.size).toBeGreaterThan(0);
+      expect(f.modifiedTime).not.toBeNull();
+    }
+  });
+
+  it("reads file contents that parse as readings", async () => {
+    const source = createLocalSource(FIXTURE_DIR);
+    const [file] = await source.listFiles();
+    expect(parseCSV(await source.fetchContent(file)).length).toBeGreaterThan(0);
+  });
+});
+
+// ─── http source ────────────────────────────────────────────────────────────
+
+describe("createHttpSource", () => {
+  it("requires at least one URL", () => {
+    expect(() => createHttpSource([])).toThrow(/WEATHER_HTTP_URLS/);
+  });
+
+  it("describes files from HEAD headers and downloads with GET", async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) =>
+      init?.method === "HEAD"
+        ? new Response(null, {
+            headers: {
+              "last-modified": "Sun, 08 Feb 2026 18:00:00 GMT",
+              "content-length": "42",
+            },
+          })
+        : new Response("2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C")
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const source = createHttpSource(["https://pi.local/logs/latest.csv"]);
+    const [file] = await source.listFiles();
+
+    expect(file).toEqual({
+      id: "https://pi.local/logs/latest.csv",
+      name: "latest.csv",
+      path: "logs/latest.csv",
+      modifiedTime: "2026-02-08T18:00:00.000Z",
+      size: 42,
+    });
+    expect(parseCSV(await source.fetchContent(file))).toHaveLength(1);
+  });
+
+  it("throws on non-2xx downloads", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("nope", { status: 404 }))
+    );
+    const source = createHttpSource(["https://pi.local/missing.csv"]);
+    await expect(
+      source.fetchContent({
+        id: "https://pi.local/missing.csv",
+        name: "missing.csv",
+        modifiedTime: null,
+        size: null,
+      })
+    ).rejects.toThrow(/404/);
+  });
+});
+
+// ─── getDataSource ──────────────────────────────────────────────────────────
+
+describe("getDataSource", () => {
+  it("selects the source named by WEATHER_DATA_SOURCE", () => {
+    vi.stubEnv("WEATHER_DATA_SOURCE", "local");
+    vi.stubEnv("WEATHER_LOCAL_DIR", FIXTURE_DIR);
+    expect(getDataSource().name).toBe("local");
+  });
+
+  it("rejects unknown sources", () => {
+    vi.stubEnv("WEATHER_DATA_SOURCE", "ftp");
+    expect(() => getDataSource()).toThrow(/Unknown WEATHER_DATA_SOURCE/);
+  });
+});
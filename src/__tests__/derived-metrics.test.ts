@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  deriveMetrics,
+  dewPoint,
+  heatIndex,
+  humidex,
+  saturationVaporPressure,
+} from "@/lib/derived-metrics";
+import { computeStats, parseCSV } from "@/lib/csv-parser";
+
+// ─── individual formulas ────────────────────────────────────────────────────
+
+describe("derived metric formulas", () => {
+  it("matches reference saturation vapour pressures", () => {
+    expect(saturationVaporPressure(0)).toBeCloseTo(6.11, 2);
+    expect(saturationVaporPressure(20)).toBeCloseTo(23.37, 1);
+  });
+
+  it("puts the dew point at the air temperature when saturated", () => {
+    expect(dewPoint(15, 100)).toBeCloseTo(15, 5);
+    expect(dewPoint(20, 50)).toBeCloseTo(9.3, 1);
+  });
+
+  it("stays finite at 0% humidity", () => {
+    expect(Number.isFinite(dewPoint(18, 0))).toBe(true);
+  });
+
+  it("follows the NOAA heat index table", () => {
+    // 90°F at 70% RH reads 106°F in the NOAA table
+    expect(heatIndex(32.22, 70)).toBeCloseTo(41.1, 0);
+    // Below ~80°F the heat index stays close to the air temperature
+    expect(Math.abs(heatIndex(20, 50) - 20)).toBeLessThan(1);
+  });
+
+  it("follows the Environment Canada humidex table", () => {
+    // 30°C at 70% RH reads 41 in the humidex table
+    expect(humidex(30, 70)).toBeCloseTo(41, 0);
+  });
+});
+
+// ─── deriveMetrics ──────────────────────────────────────────────────────────
+
+describe("deriveMetrics", () => {
+  it("rounds every metric for display", () => {
+    expect(deriveMetrics({ temperature: 20, humidity: 50 })).toEqual({
+      dewPoint: 9.3,
+      heatIndex: 19.4,
+      humidex: 20.9,
+      absoluteHumidity: 8.6,
+      vaporPressureDeficit: 1.17,
+    });
+  });
+});
+
+// ─── computeStats ───────────────────────────────────────────────────────────
+
+describe("computeStats derived metrics", () => {
+  it("reports current and aggregate dew point", () => {
+    const stats = computeStats(
+      parseCSV(`2026-02-08 12:00:21,Humidity: 50.00%  Temp: 20.00C
+2026-02-08 12:05:21,Humidity: 100.00%  Temp: 15.00C`)
+    )!;
+
+    expect(stats.currentDewPoint).toBe(15);
+    expect(stats.minDewPoint).toBe(9.3);
+    expect(stats.maxDewPoint).toBe(15);
+    expect(stats.avgDewPoint).toBe(12.1);
+    expect(stats.currentVaporPressureDeficit).toBe(0);
+  });
+});
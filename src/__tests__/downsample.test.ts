@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  bucketsForWidth,
+  downsampleMinMax,
+  downsampleReadings,
+} from "@/lib/downsample";
+import { WeatherReading } from "@/lib/types";
+
+const START = Date.parse("2026-02-08T00:00:00Z");
+const MINUTE = 60 * 1000;
+
+/** Flat 20°C / 50% readings every 5 minutes, with optional overrides. */
+function flat(
+  count: number,
+  overrides: Record<number, Partial<WeatherReading>> = {},
+  sensor?: string
+): WeatherReading[] {
+  return Array.from({ length: count }, (_, i) => ({
+    timestamp: new Date(START + i * 5 * MINUTE),
+    temperature: 20,
+    humidity: 50,
+    ...(sensor ? { sensor } : {}),
+    ...overrides[i],
+  }));
+}
+
+// ─── bucketsForWidth ────────────────────────────────────────────────────────
+
+describe("bucketsForWidth", () => {
+  it("scales with width within bounds", () => {
+    expect(bucketsForWidth(800)).toBe(200);
+    expect(bucketsForWidth(810)).toBe(bucketsForWidth(790));
+    expect(bucketsForWidth(0)).toBe(50);
+    expect(bucketsForWidth(100_000)).toBe(1000);
+  });
+});
+
+// ─── downsampleMinMax ───────────────────────────────────────────────────────
+
+describe("downsampleMinMax", () => {
+  const values = [(r: WeatherReading) => r.temperature];
+
+  it("returns small series unchanged", () => {
+    const data = flat(10);
+    expect(downsampleMinMax(data, 5, values)).toBe(data);
+  });
+
+  it("keeps single-point spikes and dips that every-Nth sampling drops", () => {
+    const data = flat(1000, {
+      333: { temperature: 35 },
+      667: { temperature: 5 },
+    });
+    const result = downsampleMinMax(data, 20, values);
+
+    expect(result.length).toBeLessThanOrEqual(20 * 2 + 2);
+    expect(result.map((r) => r.temperature)).toContain(35);
+    expect(result.map((r) => r.temperature)).toContain(5);
+    expect(result[0]).toBe(data[0]);
+    expect(result[result.length - 1]).toBe(data[999]);
+  });
+
+  it("keeps the extremes of every value", () => {
+    const data = flat(1000, { 500: { humidity: 95 } });
+    const result = downsampleMinMax(data, 20, [
+      (r) => r.temperature,
+      (r) => r.humidity,
+    ]);
+    expect(result.map((r) => r.humidity)).toContain(95);
+  });
+
+  it("preserves order", () => {
+    const result = downsampleMinMax(
+      flat(500, { 10: { temperature: 1 }, 400: { temperature: 40 } }),
+      10,
+      values
+    );
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i].timestamp.getTime()).toBeGreaterThan(
+        result[i - 1].timestamp.getTime()
+      );
+    }
+  });
+});
+
+// ─── downsampleReadings ─────────────────────────────────────────────────────
+
+describe("downsampleReadings", () => {
+  it("downsamples each sensor on its own", () => {
+    const readings = [
+      ...flat(600, { 100: { temperature: 30 } }, "a"),
+      ...flat(600, {}, "b"),
+    ].sort((x, y) => x.timestamp.getTime() - y.timestamp.getTime());
+    const result = downsampleReadings(readings, 10);
+
+    expect(result.filter((r) => r.sensor === "a").length).toBeLessThan(60);
+    expect(result.filter((r) => r.sensor === "b").length).toBeGreaterThan(0);
+    expect(result.some((r) => r.temperature === 30)).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  ConfigError,
+  ParseError,
+  classifyError,
+  toDataError,
+} from "@/lib/errors";
+import { httpError } from "./helpers";
+
+// ─── classifyError ──────────────────────────────────────────────────────────
+
+describe("classifyError", () => {
+  it("recognizes our own error classes", () => {
+    expect(classifyError(new ConfigError("GOOGLE_DRIVE_FOLDER_ID"))).toBe(
+      "config"
+    );
+    expect(classifyError(new ParseError("bad"))).toBe("parse");
+    expect(classifyError(new SyntaxError("Unexpected token"))).toBe("parse");
+  });
+
+  it("tells Google's rate-limit 403s from permission ones", () => {
+    expect(classifyError(httpError(429))).toBe("quota");
+    expect(classifyError(httpError(403, "User rate limit exceeded."))).toBe(
+      "quota"
+    );
+    expect(
+      classifyError(
+        Object.assign(httpError(403, "Forbidden"), {
+          errors: [{ reason: "quotaExceeded" }],
+        })
+      )
+    ).toBe("quota");
+    const denied = httpError(403, "The caller does not have permission");
+    expect(classifyError(denied)).toBe("auth");
+  });
+
+  it("recognizes rejected credentials", () => {
+    expect(classifyError(httpError(401))).toBe("auth");
+    const badKey = new Error("invalid_grant: Invalid JWT Signature.");
+    expect(classifyError(badKey)).toBe("auth");
+    expect(
+      classifyError(
+        Object.assign(new Error("denied"), {
+          name: "InvalidAccessKeyId",
+          $metadata: { httpStatusCode: 403 },
+        })
+      )
+    ).toBe("auth");
+  });
+
+  it("treats connection failures and server errors as network trouble", () => {
+    const dns = Object.assign(new Error("getaddrinfo"), { code: "ENOTFOUND" });
+    expect(classifyError(dns)).toBe("network");
+    expect(classifyError(httpError(503))).toBe("network");
+    expect(
+      classifyError(
+        new TypeError("fetch failed", {
+          cause: Object.assign(new Error("x"), { code: "ECONNRESET" }),
+        })
+      )
+    ).toBe("network");
+  });
+
+  it("follows causes and falls back to unknown", () => {
+    expect(
+      classifyError(new Error("wrapped", { cause: httpError(429) }))
+    ).toBe("quota");
+    expect(classifyError(new Error("something else"))).toBe("unknown");
+    expect(classifyError("oops")).toBe("unknown");
+  });
+});
+
+// ─── toDataError ────────────────────────────────────────────────────────────
+
+describe("toDataError", () => {
+  it("records the kind, message and time of the failure", () => {
+    const at = new Date("2026-02-08T12:00:00Z");
+    expect(toDataError(httpError(429, "Too Many Requests"), at)).toEqual({
+      kind: "quota",
+      message: "Too Many Requests",
+      at: "2026-02-08T12:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { buildExport, celsiusToFahrenheit } from "@/lib/export";
+
+const READINGS = [
+  {
+    timestamp: "2026-02-08T12:00:21.000Z",
+    temperature: 18.1,
+    humidity: 59,
+    sensor: "main",
+  },
+  {
+    timestamp: "2026-02-08T12:05:21.000Z",
+    temperature: -3.2,
+    humidity: 61,
+    sensor: "bedroom",
+  },
+];
+
+// ─── celsiusToFahrenheit ────────────────────────────────────────────────────
+
+describe("celsiusToFahrenheit", () => {
+  it("converts known points", () => {
+    expect(celsiusToFahrenheit(0)).toBe(32);
+    expect(celsiusToFahrenheit(100)).toBe(212);
+    expect(celsiusToFahrenheit(-40)).toBe(-40);
+  });
+});
+
+// ─── buildExport ────────────────────────────────────────────────────────────
+
+describe("buildExport", () => {
+  it("writes CSV with a unit-suffixed header", () => {
+    const file = buildExport(READINGS, "csv", "C");
+    expect(file.extension).toBe("csv");
+    expect(file.mimeType).toBe("text/csv");
+    expect(file.content.split("\n")).toEqual([
+      "timestamp,temperature_c,humidity,sensor",
+      "2026-02-08T12:00:21.000Z,18.1,59,main",
+      "2026-02-08T12:05:21.000Z,-3.2,61,bedroom",
+      "",
+    ]);
+  });
+
+  it("converts temperatures when Fahrenheit is chosen", () => {
+    const file = buildExport(READINGS, "csv", "F");
+    const lines = file.content.trim().split("\n");
+    expect(lines[0]).toBe("timestamp,temperature_f,humidity,sensor");
+    expect(lines[1]).toBe("2026-02-08T12:00:21.000Z,64.58,59,main");
+  });
+
+  it("writes a JSON array", () => {
+    const file = buildExport(READINGS, "json", "C");
+    expect(JSON.parse(file.content)).toEqual([
+      {
+        timestamp: "2026-02-08T12:00:21.000Z",
+        temperature_c: 18.1,
+        humidity: 59,
+        sensor: "main",
+      },
+      {
+        timestamp: "2026-02-08T12:05:21.000Z",
+        temperature_c: -3.2,
+        humidity: 61,
+        sensor: "bedroom",
+      },
+    ]);
+  });
+
+  it("writes one JSON object per NDJSON line", () => {
+    const file = buildExport(READINGS, "ndjson", "F");
+    const lines = file.content.trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual({
+      timestamp: "2026-02-08T12:05:21.000Z",
+      temperature_f: 26.24,
+      humidity: 61,
+      sensor: "bedroom",
+    });
+  });
+
+  it("handles empty input", () => {
+    expect(buildExport([], "csv", "C").content).toBe(
+      "timestamp,temperature_c,humidity,sensor\n"
+    );
+    expect(buildExport([], "ndjson", "C").content).toBe("");
+  });
+});
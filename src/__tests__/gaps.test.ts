@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  detectOutages,
+  findGaps,
+  formatDuration,
+  freshness,
+  getGapThresholdMs,
+  insertGapBreaks,
+} from "@/lib/gaps";
+import { reading } from "./helpers";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// ─── getGapThresholdMs ──────────────────────────────────────────────────────
+
+describe("getGapThresholdMs", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("defaults to three missed readings", () => {
+    vi.stubEnv("GAP_MULTIPLE", "");
+    expect(getGapThresholdMs()).toBe(15 * MINUTE);
+  });
+
+  it("reads GAP_MULTIPLE", () => {
+    vi.stubEnv("GAP_MULTIPLE", "6");
+    expect(getGapThresholdMs()).toBe(30 * MINUTE);
+  });
+
+  it("falls back on values that would flag every reading", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("GAP_MULTIPLE", "0.5");
+    expect(getGapThresholdMs()).toBe(15 * MINUTE);
+  });
+});
+
+// ─── findGaps / detectOutages ───────────────────────────────────────────────
+
+describe("findGaps", () => {
+  it("reports spacings above the threshold", () => {
+    const times = [0, 5, 10, 60, 65].map((m) => m * MINUTE);
+    expect(findGaps(times, 15 * MINUTE)).toEqual([
+      { start: 10 * MINUTE, end: 60 * MINUTE },
+    ]);
+  });
+});
+
+describe("detectOutages", () => {
+  it("checks each sensor on its own and lists the longest first", () => {
+    const outages = detectOutages(
+      [
+        reading("2026-02-08T00:00:00Z", "bedroom"),
+        reading("2026-02-08T00:02:00Z", "office"),
+        reading("2026-02-08T01:00:00Z", "bedroom"),
+        reading("2026-02-08T03:02:00Z", "office"),
+      ],
+      15 * MINUTE
+    );
+
+    expect(outages.map((o) => [o.sensor, o.durationMs])).toEqual([
+      ["office", 3 * HOUR],
+      ["bedroom", HOUR],
+    ]);
+    expect(outages[0].start).toBe("2026-02-08T00:02:00.000Z");
+  });
+});
+
+// ─── insertGapBreaks ────────────────────────────────────────────────────────
+
+describe("insertGapBreaks", () => {
+  const rows = [
+    { time: "2026-02-08T00:00:00.000Z", temperature: 20 },
+    { time: "2026-02-08T02:00:00.000Z", temperature: 21 },
+  ];
+
+  it("puts an empty row in the middle of each gap", () => {
+    const gap = {
+      start: Date.parse(rows[0].time),
+      end: Date.parse(rows[1].time),
+    };
+    expect(insertGapBreaks(rows, [gap])).toEqual([
+      rows[0],
+      { time: "2026-02-08T01:00:00.000Z" },
+      rows[1],
+    ]);
+  });
+
+  it("leaves rows alone without gaps", () => {
+    expect(insertGapBreaks(rows, [])).toBe(rows);
+  });
+});
+
+// ─── freshness ──────────────────────────────────────────────────────────────
+
+describe("freshness", () => {
+  const now = new Date("2026-02-08T12:00:00Z");
+  const ago = (hours: number) => new Date(now.getTime() - hours * HOUR);
+
+  it("allows for the 6-hour sync schedule", () => {
+    expect(freshness(ago(6), now)).toBe("fresh");
+    expect(freshness(ago(9), now)).toBe("late");
+    expect(freshness(ago(24), now)).toBe("stale");
+  });
+});
+
+describe("formatDuration", () => {
+  it("uses the two largest units", () => {
+    expect(formatDuration(40 * MINUTE)).toBe("40m");
+    expect(formatDuration(135 * MINUTE)).toBe("2h 15m");
+    expect(formatDuration(76 * HOUR)).toBe("3d 4h");
+  });
+});
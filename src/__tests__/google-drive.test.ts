@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+interface FakeFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  createdTime: string;
+  parent: string;
+}
+
+const FOLDER = "application/vnd.google-apps.folder";
+const PAGE_SIZE = 2;
+
+let driveFiles: FakeFile[] = [];
+const listMock = vi.fn();
+const watchMock = vi.fn(async () => ({
+  data: { id: "channel", resourceId: "resource", expiration: "1770552000000" },
+}));
+
+// Minimal stand-in for the Drive v3 files.list API: filters by parent,
+// honours the folder clause, and pages PAGE_SIZE results at a time.
+vi.mock("googleapis", () => ({
+  google: {
+    auth: { GoogleAuth: vi.fn() },
+    drive: () => ({
+      files: {
+        list: listMock.mockImplementation(
+          async (params: { q: string; pageToken?: string }) => {
+            const parent = params.q.match(/^'([^']+)' in parents/)![1];
+            const includeFolders = params.q.includes(FOLDER);
+            const matches = driveFiles.filter(
+              (f) =>
+                f.parent === parent &&
+                (f.mimeType === "text/csv" || includeFolders)
+            );
+            const offset = Number(params.pageToken ?? 0);
+            const next = offset + PAGE_SIZE;
+            return {
+              data: {
+                files: matches.slice(offset, next),
+                nextPageToken: next < matches.length ? String(next) : null,
+              },
+            };
+          }
+        ),
+      },
+      changes: {
+        getStartPageToken: async () => ({ data: { startPageToken: "42" } }),
+        watch: watchMock,
+      },
+    }),
+  },
+}));
+
+const { listCSVFiles, listOptionsFromEnv, watchDriveChanges } = await import(
+  "@/lib/google-drive"
+);
+
+function csv(id: string, parent: string, createdTime: string): FakeFile {
+  return { id, name: `${id}.csv`, mimeType: "text/csv", createdTime, parent };
+}
+
+beforeEach(() => {
+  vi.stubEnv(
+    "GOOGLE_SERVICE_ACCOUNT_EMAIL",
+    "test@test.iam.gserviceaccount.com"
+  );
+  vi.stubEnv("GOOGLE_PRIVATE_KEY", "test-key");
+  vi.stubEnv("GOOGLE_DRIVE_FOLDER_ID", "root");
+  listMock.mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// ─── listCSVFiles ───────────────────────────────────────────────────────────
+
+describe("listCSVFiles", () => {
+  it("follows nextPageToken until every page is listed", async () => {
+    driveFiles = Array.from({ length: 5 }, (_, i) =>
+      csv(`f${i}`, "root", `2026-02-0${i + 1}T00:00:00Z`)
+    );
+
+    const files = await listCSVFiles();
+
+    expect(files).toHaveLength(5);
+    expect(listMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores subfolders unless recursive", async () => {
+    driveFiles = [
+      csv("top", "root", "2026-02-01T00:00:00Z"),
+      { ...csv("2026", "root", ""), mimeType: FOLDER },
+      csv("nested", "2026", "2026-02-02T00:00:00Z"),
+    ];
+
+    expect((await listCSVFiles()).map((f) => f.id)).toEqual(["top"]);
+  });
+
+  it("descends into subfolders and sorts newest first", async () => {
+    driveFiles = [
+      csv("top", "root", "2026-02-01T00:00:00Z"),
+      { ...csv("2026", "root", ""), mimeType: FOLDER },
+      { ...csv("02", "2026", ""), mimeType: FOLDER },
+      csv("nested", "02", "2026-02-03T00:00:00Z"),
+      csv("middle", "2026", "2026-02-02T00:00:00Z"),
+    ];
+
+    const files = await listCSVFiles({ recursive: true });
+    expect(files.map((f) => f.id)).toEqual(["nested", "middle", "top"]);
+  });
+
+  it("adds name and date filters to the query", async () => {
+    driveFiles = [];
+    await listCSVFiles({
+      nameContains: "weather_",
+      createdAfter: new Date("2026-01-01T00:00:00Z"),
+      modifiedAfter: new Date("2026-02-01T00:00:00Z"),
+    });
+
+    const { q } = listMock.mock.calls[0][0];
+    expect(q).toContain("name contains 'weather_'");
+    expect(q).toContain("createdTime >= '2026-01-01T00:00:00.000Z'");
+    expect(q).toContain("modifiedTime > '2026-02-01T00:00:00.000Z'");
+  });
+
+  it("escapes quotes in filter values", async () => {
+    driveFiles = [];
+    await listCSVFiles({ nameContains: "it's" });
+    expect(listMock.mock.calls[0][0].q).toContain("name contains 'it\\'s'");
+  });
+});
+
+// ─── listOptionsFromEnv ─────────────────────────────────────────────────────
+
+describe("listOptionsFromEnv", () => {
+  it("reads recursion and filters from the environment", () => {
+    vi.stubEnv("GOOGLE_DRIVE_RECURSIVE", "true");
+    vi.stubEnv("GOOGLE_DRIVE_NAME_FILTER", "weather_");
+    vi.stubEnv("GOOGLE_DRIVE_SINCE", "2026-01-01");
+
+    expect(listOptionsFromEnv()).toEqual({
+      recursive: true,
+      nameContains: "weather_",
+      createdAfter: new Date("2026-01-01"),
+    });
+  });
+
+  it("rejects an invalid GOOGLE_DRIVE_SINCE", () => {
+    vi.stubEnv("GOOGLE_DRIVE_SINCE", "last week");
+    expect(() => listOptionsFromEnv()).toThrow(/GOOGLE_DRIVE_SINCE/);
+  });
+});
+
+// ─── watchDriveChanges ──────────────────────────────────────────────────────
+
+describe("watchDriveChanges", () => {
+  it("registers a web hook from the current change token", async () => {
+    const channel = await watchDriveChanges(
+      "https://example.com/api/drive/webhook",
+      "token"
+    );
+
+    expect(watchMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pageToken: "42",
+        requestBody: expect.objectContaining({
+          type: "web_hook",
+          address: "https://example.com/api/drive/webhook",
+          token: "token",
+        }),
+      })
+    );
+    expect(channel).toEqual({
+      id: "channel",
+      resourceId: "resource",
+      expiration: "2026-02-08T12:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { WeatherReading } from "@/lib/types";
+
+/** A 20°C / 50% reading at `iso`, from `sensor` if given. */
+export function reading(iso: string, sensor?: string): WeatherReading {
+  const r: WeatherReading = {
+    timestamp: new Date(iso),
+    temperature: 20,
+    humidity: 50,
+  };
+  if (sensor) r.sensor = sensor;
+  return r;
+}
+
+/** An error shaped like the ones gaxios and the AWS SDK throw. */
+export function httpError(status: number, message = "Request failed") {
+  return Object.assign(new Error(message), { status });
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { BadRequestError } from "@/lib/api";
+import {
+  MAX_BATCH,
+  loadIngestedReadings,
+  parseIngestBody,
+  parseJSONReadings,
+  storeIngestedReadings,
+} from "@/lib/ingest";
+import { reading } from "./helpers";
+
+// ─── parseJSONReadings ──────────────────────────────────────────────────────
+
+describe("parseJSONReadings", () => {
+  it("accepts an array or a {readings} wrapper", () => {
+    const entry = {
+      timestamp: "2026-02-08T12:00:21Z",
+      temperature: 18.1,
+      humidity: 59,
+    };
+    for (const body of [[entry], { readings: [entry] }]) {
+      const { readings } = parseJSONReadings(body);
+      expect(readings).toEqual([
+        {
+          timestamp: new Date("2026-02-08T12:00:21Z"),
+          temperature: 18.1,
+          humidity: 59,
+        },
+      ]);
+    }
+  });
+
+  it("reads naive timestamps in the source zone and epoch ms as-is", () => {
+    const { readings } = parseJSONReadings(
+      [
+        { timestamp: "2026-02-08 12:00:21", temperature: 18, humidity: 59 },
+        { timestamp: 1770552021000, temperature: 18, humidity: 59 },
+      ],
+      "America/New_York"
+    );
+    expect(readings.map((r) => r.timestamp.toISOString())).toEqual([
+      "2026-02-08T17:00:21.000Z",
+      "2026-02-08T12:00:21.000Z",
+    ]);
+  });
+
+  it("gives readings the batch sensor unless they name their own", () => {
+    const { readings } = parseJSONReadings(
+      [
+        { timestamp: 0, temperature: 18, humidity: 59 },
+        { timestamp: 0, temperature: 18, humidity: 59, sensor: "attic" },
+      ],
+      "UTC",
+      "bedroom"
+    );
+    expect(readings.map((r) => r.sensor)).toEqual(["bedroom", "attic"]);
+  });
+
+  it("counts unusable entries like rejected lines", () => {
+    const { readings, diagnostics } = parseJSONReadings([
+      { timestamp: "yesterday", temperature: 18, humidity: 59 },
+      { timestamp: 0, temperature: 18 },
+      { timestamp: 0, temperature: "warm", humidity: 59 },
+      null,
+      { timestamp: 0, temperature: 18, humidity: 59 },
+    ]);
+    expect(readings).toHaveLength(1);
+    expect(diagnostics.acceptedLines).toBe(1);
+    expect(diagnostics.rejectedLines).toBe(4);
+    expect(diagnostics.rejectReasons).toEqual({
+      "invalid-timestamp": 2,
+      "missing-humidity": 1,
+      "invalid-number": 1,
+    });
+    expect(diagnostics.samples[0].lineNumber).toBe(1);
+  });
+
+  it("rejects bodies that aren't a list of readings", () => {
+    expect(() => parseJSONReadings({ temperature: 18 })).toThrow(
+      BadRequestError
+    );
+  });
+
+  it("rejects entries with sensor ids a CSV line couldn't carry", () => {
+    const { readings, diagnostics } = parseJSONReadings([
+      { timestamp: 0, temperature: 18, humidity: 59, sensor: "a b" },
+      { timestamp: 0, temperature: 18, humidity: 59, sensor: "attic" },
+    ]);
+
+    expect(readings.map((r) => r.sensor)).toEqual(["attic"]);
+    expect(diagnostics.rejectReasons).toEqual({ "invalid-sensor": 1 });
+    expect(diagnostics.samples[0].lineNumber).toBe(1);
+  });
+});
+
+// ─── parseIngestBody ────────────────────────────────────────────────────────
+
+describe("parseIngestBody", () => {
+  it("parses plain-text bodies as Pi log lines", () => {
+    const { readings, diagnostics } = parseIngestBody(
+      "2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C\nFailed to read",
+      "text/plain",
+      "UTC",
+      "bedroom"
+    );
+    expect(readings).toEqual([
+      {
+        timestamp: new Date("2026-02-08T12:00:21Z"),
+        temperature: 18.1,
+        humidity: 59,
+        sensor: "bedroom",
+      },
+    ]);
+    expect(diagnostics.rejectedLines).toBe(1);
+  });
+
+  it("parses JSON bodies by content type", () => {
+    const { readings } = parseIngestBody(
+      JSON.stringify([{ timestamp: 0, temperature: 18, humidity: 59 }]),
+      "application/json; charset=utf-8"
+    );
+    expect(readings).toHaveLength(1);
+  });
+
+  it("rejects malformed JSON, bad sensors and oversized batches", () => {
+    expect(() => parseIngestBody("{", "application/json")).toThrow(
+      BadRequestError
+    );
+    expect(() => parseIngestBody("", "text/plain", "UTC", "../x")).toThrow(
+      BadRequestError
+    );
+    const tooMany = Array.from({ length: MAX_BATCH + 1 }, () => ({
+      timestamp: 0,
+      temperature: 18,
+      humidity: 59,
+    }));
+    expect(() =>
+      parseIngestBody(JSON.stringify(tooMany), "application/json")
+    ).toThrow(BadRequestError);
+  });
+});
+
+// ─── storeIngestedReadings ──────────────────────────────────────────────────
+
+describe("storeIngestedReadings", () => {
+  let tmpDir: string;
+  let storePath: string;
+  const now = new Date("2026-02-10T00:00:00Z");
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), "ingest-"));
+    storePath = path.join(tmpDir, "ingested.json");
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("starts empty when nothing has been pushed", async () => {
+    expect(await loadIngestedReadings(storePath)).toEqual([]);
+  });
+
+  it("keeps readings across batches and counts only new ones", async () => {
+    const first = [reading("2026-02-09T12:00:00Z", "bedroom")];
+    const second = [
+      reading("2026-02-09T12:00:00Z", "bedroom"),
+      reading("2026-02-09T12:05:00Z", "bedroom"),
+      reading("2026-02-09T12:00:00Z"),
+    ];
+
+    expect(await storeIngestedReadings(first, storePath, now)).toBe(1);
+    expect(await storeIngestedReadings(second, storePath, now)).toBe(2);
+    expect(await loadIngestedReadings(storePath)).toEqual([
+      reading("2026-02-09T12:00:00Z", "bedroom"),
+      reading("2026-02-09T12:00:00Z"),
+      reading("2026-02-09T12:05:00Z", "bedroom"),
+    ]);
+  });
+
+  it("serializes concurrent batches", async () => {
+    await Promise.all([
+      storeIngestedReadings([reading("2026-02-09T12:00:00Z")], storePath, now),
+      storeIngestedReadings([reading("2026-02-09T12:05:00Z")], storePath, now),
+    ]);
+    expect(await loadIngestedReadings(storePath)).toHaveLength(2);
+  });
+
+  it("drops readings past the retention window", async () => {
+    const stored = await storeIngestedReadings(
+      [reading("2025-12-01T00:00:00Z"), reading("2026-02-09T00:00:00Z")],
+      storePath,
+      now
+    );
+    expect(stored).toBe(1);
+    expect(await loadIngestedReadings(storePath)).toEqual([
+      reading("2026-02-09T00:00:00Z"),
+    ]);
+  });
+
+  it("counts nothing for backfills older than the window", async () => {
+    const old = [reading("2025-12-01T00:00:00Z")];
+
+    expect(await storeIngestedReadings(old, storePath, now)).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  appendReadings,
+  livePosition,
+  liveUpdateSince,
+  reconnectDelay,
+  sourceStatus,
+  sseMessage,
+} from "@/lib/live";
+import type { SerializedReading, SerializedStats } from "@/lib/weather-data";
+
+function reading(timestamp: string, sensor = "main"): SerializedReading {
+  return { timestamp, temperature: 20, humidity: 50, sensor };
+}
+
+const stats = {
+  lastUpdated: "2026-02-08T12:10:00.000Z",
+} as SerializedStats;
+
+// ─── reconnectDelay ─────────────────────────────────────────────────────────
+
+describe("reconnectDelay", () => {
+  it("doubles from a second up to a minute", () => {
+    const noJitter = () => 0;
+    expect([0, 1, 2, 3].map((n) => reconnectDelay(n, noJitter))).toEqual([
+      1000, 2000, 4000, 8000,
+    ]);
+    expect(reconnectDelay(20, noJitter)).toBe(60000);
+  });
+
+  it("takes off up to half at random", () => {
+    expect(reconnectDelay(3, () => 0.999)).toBe(4004);
+  });
+});
+
+// ─── liveUpdateSince ────────────────────────────────────────────────────────
+
+describe("liveUpdateSince", () => {
+  const data = {
+    readings: [
+      reading("2026-02-08T12:00:00.000Z"),
+      reading("2026-02-08T12:05:00.000Z"),
+      reading("2026-02-08T12:10:00.000Z"),
+    ],
+    flagged: [],
+    stats,
+    sensorStats: { main: stats },
+    sensors: ["main"],
+  };
+
+  it("carries only readings after `since`", () => {
+    const update = liveUpdateSince(data, { main: "2026-02-08T12:00:00.000Z" });
+    expect(update?.readings.map((r) => r.timestamp)).toEqual([
+      "2026-02-08T12:05:00.000Z",
+      "2026-02-08T12:10:00.000Z",
+    ]);
+    expect(update?.stats).toBe(stats);
+  });
+
+  it("is null when the client is up to date or there is no data", () => {
+    expect(liveUpdateSince(data, livePosition(data.sensorStats))).toBeNull();
+    expect(
+      liveUpdateSince(
+        { ...data, stats: null },
+        { main: "2026-02-08T00:00:00.000Z" }
+      )
+    ).toBeNull();
+  });
+
+  it("follows each sensor from its own position", () => {
+    // The attic's readings only arrive with the next Drive upload, after
+    // the bedroom has pushed newer ones
+    const update = liveUpdateSince(
+      {
+        ...data,
+        readings: [
+          reading("2026-02-08T11:00:00.000Z", "attic"),
+          reading("2026-02-08T11:30:00.000Z", "attic"),
+          reading("2026-02-08T12:10:00.000Z", "bedroom"),
+        ],
+      },
+      {
+        attic: "2026-02-08T11:00:00.000Z",
+        bedroom: "2026-02-08T12:10:00.000Z",
+      }
+    );
+    expect(update?.readings.map((r) => `${r.sensor} ${r.timestamp}`)).toEqual([
+      "attic 2026-02-08T11:30:00.000Z",
+    ]);
+  });
+
+  it("starts sensors new to the client from its earliest position", () => {
+    const update = liveUpdateSince(
+      {
+        ...data,
+        readings: [
+          reading("2026-02-08T10:00:00.000Z", "garage"),
+          reading("2026-02-08T12:00:00.000Z", "garage"),
+        ],
+      },
+      { main: "2026-02-08T11:00:00.000Z", attic: "2026-02-08T12:30:00.000Z" }
+    );
+    expect(update?.readings.map((r) => r.timestamp)).toEqual([
+      "2026-02-08T12:00:00.000Z",
+    ]);
+  });
+});
+
+// ─── livePosition ───────────────────────────────────────────────────────────
+
+describe("livePosition", () => {
+  it("takes each sensor's latest reading", () => {
+    const attic = { lastUpdated: "2026-02-08T11:00:00.000Z" };
+    expect(
+      livePosition({ main: stats, attic: attic as SerializedStats })
+    ).toEqual({
+      main: "2026-02-08T12:10:00.000Z",
+      attic: "2026-02-08T11:00:00.000Z",
+    });
+  });
+});
+
+// ─── appendReadings ─────────────────────────────────────────────────────────
+
+describe("appendReadings", () => {
+  it("appends new readings in order and skips ones already shown", () => {
+    const current = [
+      reading("2026-02-08T12:00:00.000Z"),
+      reading("2026-02-08T12:05:00.000Z"),
+    ];
+    const merged = appendReadings(current, [
+      reading("2026-02-08T12:05:00.000Z"),
+      reading("2026-02-08T12:05:00.000Z", "attic"),
+      reading("2026-02-08T12:10:00.000Z"),
+    ]);
+    expect(merged.map((r) => `${r.sensor} ${r.timestamp}`)).toEqual([
+      "main 2026-02-08T12:00:00.000Z",
+      "main 2026-02-08T12:05:00.000Z",
+      "attic 2026-02-08T12:05:00.000Z",
+      "main 2026-02-08T12:10:00.000Z",
+    ]);
+  });
+
+  it("drops readings before the cutoff", () => {
+    const merged = appendReadings(
+      [reading("2026-02-01T00:00:00.000Z")],
+      [reading("2026-02-08T12:00:00.000Z")],
+      "2026-02-02T00:00:00.000Z"
+    );
+    expect(merged).toEqual([reading("2026-02-08T12:00:00.000Z")]);
+  });
+});
+
+// ─── sourceStatus ───────────────────────────────────────────────────────────
+
+describe("sourceStatus", () => {
+  it("keeps the error's message off public pages", () => {
+    const error = {
+      kind: "auth" as const,
+      message: "invalid_grant for pi@example.iam.gserviceaccount.com",
+      at: "2026-02-08T12:00:00.000Z",
+    };
+    expect(sourceStatus({ error, syncedAt: null })).toEqual({
+      error: { kind: "auth", at: "2026-02-08T12:00:00.000Z" },
+      syncedAt: null,
+    });
+    expect(sourceStatus({ error: null, syncedAt: error.at }).error).toBeNull();
+  });
+});
+
+// ─── sseMessage ─────────────────────────────────────────────────────────────
+
+describe("sseMessage", () => {
+  it("formats an event with an optional id", () => {
+    expect(sseMessage("update", { a: 1 }, "x")).toBe(
+      'event: update\nid: x\ndata: {"a":1}\n\n'
+    );
+    expect(sseMessage("reconnect", null)).toBe(
+      "event: reconnect\ndata: null\n\n"
+    );
+  });
+});
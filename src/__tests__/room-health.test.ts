@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeRoomHealth,
+  computeRoomHealthReport,
+} from "@/lib/room-health";
+import { WeatherReading } from "@/lib/types";
+
+const MINUTE = 60 * 1000;
+
+/** Readings every 5 minutes from `start` with the given values. */
+function series(
+  start: string,
+  values: { temperature?: number; humidity?: number }[]
+): WeatherReading[] {
+  const t0 = Date.parse(start);
+  return values.map((v, i) => ({
+    timestamp: new Date(t0 + i * 5 * MINUTE),
+    temperature: v.temperature ?? 22,
+    humidity: v.humidity ?? 50,
+  }));
+}
+
+const repeat = <T>(value: T, n: number): T[] => Array(n).fill(value);
+
+// ─── computeRoomHealth ──────────────────────────────────────────────────────
+
+describe("computeRoomHealth", () => {
+  it("returns null without readings", () => {
+    expect(computeRoomHealth([])).toBeNull();
+  });
+
+  it("scores a room that is always comfortable at 100", () => {
+    const health = computeRoomHealth(
+      series("2026-02-08T00:00:00Z", repeat({}, 12))
+    )!;
+    expect(health.score).toBe(100);
+    expect(health.comfortPercent).toBe(100);
+    expect(health.hoursAboveMoldRisk).toBe(0);
+    expect(health.coveredHours).toBe(1);
+  });
+
+  it("measures time and streaks above the mold threshold", () => {
+    const readings = series("2026-02-08T00:00:00Z", [
+      ...repeat({ humidity: 75 }, 12), // 1h damp
+      ...repeat({}, 12),
+      ...repeat({ humidity: 80 }, 6), // 30 min damp, still going
+    ]);
+    const health = computeRoomHealth(readings)!;
+
+    expect(health.hoursAboveMoldRisk).toBe(1.5);
+    expect(health.longestDampHours).toBe(1);
+    expect(health.currentDampHours).toBe(0.5);
+    expect(health.comfortPercent).toBe(40);
+  });
+
+  it("does not count logger outages as damp time", () => {
+    const readings = [
+      ...series("2026-02-08T00:00:00Z", [{ humidity: 90 }]),
+      ...series("2026-02-08T06:00:00Z", [{ humidity: 90 }]),
+    ];
+    const health = computeRoomHealth(readings)!;
+
+    // 15 min cap for the first reading + 5 min for the last
+    expect(health.hoursAboveMoldRisk).toBeCloseTo(20 / 60, 1);
+    expect(health.longestDampHours).toBeLessThan(0.5);
+  });
+});
+
+// ─── computeRoomHealthReport ────────────────────────────────────────────────
+
+describe("computeRoomHealthReport", () => {
+  it("groups readings into Monday-start weeks", () => {
+    // Sunday 8 Feb and Monday 9 Feb 2026 fall in different weeks
+    const readings = [
+      ...series("2026-02-08T12:00:00Z", repeat({ humidity: 80 }, 3)),
+      ...series("2026-02-09T12:00:00Z", repeat({}, 3)),
+    ];
+    const report = computeRoomHealthReport(readings, "UTC")!;
+
+    expect(report.weekly.map((w) => w.weekStart)).toEqual([
+      "2026-02-02",
+      "2026-02-09",
+    ]);
+    expect(report.weekly[0].score).toBeLessThan(report.weekly[1].score);
+  });
+
+  it("bases the current score on the 7 days before the latest reading", () => {
+    const readings = [
+      ...series("2026-01-01T00:00:00Z", repeat({ humidity: 95 }, 12)),
+      ...series("2026-02-08T00:00:00Z", repeat({}, 12)),
+    ];
+    const report = computeRoomHealthReport(readings)!;
+
+    expect(report.current.score).toBe(100);
+    expect(report.current.coveredHours).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import {
+  REFRESH_SESSION_MAX_AGE,
+  createRefreshSession,
+  isRefreshSession,
+} from "@/lib/session";
+
+const NOW = Date.parse("2026-02-08T12:00:00Z");
+
+// ─── refresh sessions ───────────────────────────────────────────────────────
+
+describe("isRefreshSession", () => {
+  it("accepts sessions signed with the same secret until they expire", () => {
+    const session = createRefreshSession("s3cret", NOW);
+    const expiry = NOW + REFRESH_SESSION_MAX_AGE * 1000;
+
+    expect(isRefreshSession(session, "s3cret", NOW)).toBe(true);
+    expect(isRefreshSession(session, "s3cret", expiry - 1)).toBe(true);
+    expect(isRefreshSession(session, "s3cret", expiry)).toBe(false);
+  });
+
+  it("rejects other secrets, tampering and missing values", () => {
+    const session = createRefreshSession("s3cret", NOW);
+    const [expires, signature] = session.split(".");
+
+    expect(isRefreshSession(session, "other", NOW)).toBe(false);
+    expect(
+      isRefreshSession(`${Number(expires) + 1}.${signature}`, "s3cret", NOW)
+    ).toBe(false);
+    expect(isRefreshSession("garbage", "s3cret", NOW)).toBe(false);
+    expect(isRefreshSession(undefined, "s3cret", NOW)).toBe(false);
+    expect(isRefreshSession(session, undefined, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,378 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { SourceFile, WeatherDataSource } from "@/lib/data-source";
+import { createLocalSource } from "@/lib/local-source";
+import { filterChangedFiles } from "@/lib/data-source";
+import {
+  hasChangesSinceSync,
+  loadStore,
+  loadStoredReadings,
+  saveStore,
+  sensorForFile,
+  syncFromSource,
+  syncReadings,
+} from "@/lib/sync-store";
+import { httpError } from "./helpers";
+
+const CSV_A = "2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C";
+const CSV_B = `2026-02-08 18:00:21,Humidity: 55.00%  Temp: 19.40C
+2026-02-08 18:05:21,Humidity: 54.00%  Temp: 19.50C`;
+
+function file(id: string, modifiedTime: string | null, size = 10): SourceFile {
+  return { id, name: `${id}.csv`, modifiedTime, size };
+}
+
+/** In-memory source whose listing and contents can be changed per test. */
+function fakeSource(
+  files: SourceFile[],
+  contents: Record<string, string>
+): WeatherDataSource & { fetchContent: ReturnType<typeof vi.fn> } {
+  return {
+    name: "fake",
+    listFiles: async () => files,
+    fetchContent: vi.fn(async (f: SourceFile) => {
+      if (!(f.id in contents)) throw new Error(`missing ${f.id}`);
+      return contents[f.id];
+    }),
+    listChangedFiles: async () => files,
+  };
+}
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(path.join(os.tmpdir(), "sync-store-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+// ─── loadStore / saveStore ──────────────────────────────────────────────────
+
+describe("loadStore", () => {
+  it("returns an empty store when the file is missing", async () => {
+    const store = await loadStore(path.join(tmpDir, "missing.json"));
+    expect(store.files).toEqual({});
+  });
+
+  it("returns an empty store when the file is corrupt", async () => {
+    const storePath = path.join(tmpDir, "store.json");
+    await writeFile(storePath, "{not json");
+    expect((await loadStore(storePath)).files).toEqual({});
+  });
+
+  it("discards stores written by another version", async () => {
+    const storePath = path.join(tmpDir, "store.json");
+    await writeFile(
+      storePath,
+      JSON.stringify({ version: -1, files: { a: {} } })
+    );
+    expect((await loadStore(storePath)).files).toEqual({});
+  });
+
+  it("survives concurrent saves of the same file", async () => {
+    const storePath = path.join(tmpDir, "store.json");
+    const store = await loadStore(storePath);
+    await Promise.all([
+      saveStore(storePath, { ...store, timeZone: "UTC" }),
+      saveStore(storePath, { ...store, timeZone: "Europe/London" }),
+    ]);
+    expect(["UTC", "Europe/London"]).toContain(
+      (await loadStore(storePath)).timeZone
+    );
+  });
+
+  it("round-trips through saveStore", async () => {
+    const storePath = path.join(tmpDir, "nested", "store.json");
+    const { store } = await syncFromSource(
+      fakeSource([file("a", "2026-02-08T12:00:00Z")], { a: CSV_A }),
+      await loadStore(storePath)
+    );
+    await saveStore(storePath, store);
+    expect(await loadStore(storePath)).toEqual(store);
+  });
+});
+
+// ─── syncFromSource ─────────────────────────────────────────────────────────
+
+describe("syncFromSource", () => {
+  it("downloads every file on the first sync", async () => {
+    const source = fakeSource(
+      [file("a", "2026-02-08T12:00:00Z"), file("b", "2026-02-08T18:00:00Z")],
+      { a: CSV_A, b: CSV_B }
+    );
+    const { result } = await syncFromSource(source, await loadStore(""));
+
+    expect(result.downloaded).toBe(2);
+    expect(result.reused).toBe(0);
+    expect(result.readings.flat()).toHaveLength(3);
+  });
+
+  it("reuses files whose modifiedTime and size are unchanged", async () => {
+    const files = [
+      file("a", "2026-02-08T12:00:00Z"),
+      file("b", "2026-02-08T18:00:00Z"),
+    ];
+    const first = await syncFromSource(
+      fakeSource(files, { a: CSV_A, b: CSV_B }),
+      await loadStore("")
+    );
+
+    const source = fakeSource(
+      [files[0], file("b", "2026-02-09T00:00:00Z", 20)],
+      { a: CSV_A, b: CSV_B }
+    );
+    const { result } = await syncFromSource(source, first.store);
+
+    expect(result.downloaded).toBe(1);
+    expect(result.reused).toBe(1);
+    expect(source.fetchContent).toHaveBeenCalledTimes(1);
+    expect(source.fetchContent.mock.calls[0][0].id).toBe("b");
+  });
+
+  it("always re-downloads files without a modifiedTime", async () => {
+    const files = [file("a", null)];
+    const first = await syncFromSource(
+      fakeSource(files, { a: CSV_A }),
+      await loadStore("")
+    );
+    const { result } = await syncFromSource(
+      fakeSource(files, { a: CSV_A }),
+      first.store
+    );
+    expect(result.downloaded).toBe(1);
+  });
+
+  it("re-parses everything when the source time zone changes", async () => {
+    const files = [file("a", "2026-02-08T12:00:00Z")];
+    const first = await syncFromSource(
+      fakeSource(files, { a: CSV_A }),
+      await loadStore(""),
+      "UTC"
+    );
+    const { result } = await syncFromSource(
+      fakeSource(files, { a: CSV_A }),
+      first.store,
+      "Europe/Berlin"
+    );
+
+    expect(result.downloaded).toBe(1);
+    expect(result.readings[0][0].timestamp.toISOString()).toBe(
+      "2026-02-08T11:00:21.000Z"
+    );
+  });
+
+  it("drops files that are no longer listed", async () => {
+    const first = await syncFromSource(
+      fakeSource(
+        [file("a", "2026-02-08T12:00:00Z"), file("b", "2026-02-08T18:00:00Z")],
+        { a: CSV_A, b: CSV_B }
+      ),
+      await loadStore("")
+    );
+    const { store } = await syncFromSource(
+      fakeSource([file("a", "2026-02-08T12:00:00Z")], { a: CSV_A }),
+      first.store
+    );
+    expect(Object.keys(store.files)).toEqual(["a"]);
+  });
+
+  it("keeps the stored copy when a re-download fails", async () => {
+    const first = await syncFromSource(
+      fakeSource([file("a", "2026-02-08T12:00:00Z")], { a: CSV_A }),
+      await loadStore("")
+    );
+    const { result } = await syncFromSource(
+      fakeSource([file("a", "2026-02-09T00:00:00Z")], {}),
+      first.store
+    );
+    expect(result.downloaded).toBe(0);
+    expect(result.readings.flat()).toHaveLength(1);
+  });
+  it("downloads only a few files at a time", async () => {
+    const files = Array.from({ length: 20 }, (_, i) =>
+      file(`f${i}`, "2026-02-08T12:00:00Z")
+    );
+    let inFlight = 0;
+    let most = 0;
+    const source: WeatherDataSource = {
+      ...fakeSource(files, {}),
+      fetchContent: async () => {
+        most = Math.max(most, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return CSV_A;
+      },
+    };
+
+    const { result } = await syncFromSource(source, await loadStore(""));
+
+    expect(result.downloaded).toBe(20);
+    expect(most).toBeGreaterThan(1);
+    expect(most).toBeLessThanOrEqual(4);
+  });
+
+  it("reports per-file diagnostics and download errors", async () => {
+    const source = fakeSource(
+      [file("a", "2026-02-08T12:00:00Z"), file("b", "2026-02-08T18:00:00Z")],
+      { a: `${CSV_A}\nFailed to read from DHT sensor!` }
+    );
+    const { result } = await syncFromSource(source, await loadStore(""));
+
+    const [a, b] = result.files;
+    expect(a.diagnostics?.acceptedLines).toBe(1);
+    expect(a.diagnostics?.rejectReasons).toEqual({ "sensor-error": 1 });
+    expect(a.downloadError).toBeNull();
+    expect(b.diagnostics).toBeNull();
+    expect(b.downloadError).toBe("missing b");
+  });
+
+  it("says why downloads failed", async () => {
+    const ok = await syncFromSource(
+      fakeSource([file("a", "2026-02-08T12:00:00Z")], { a: CSV_A }),
+      await loadStore("")
+    );
+    expect(ok.result.error).toBeNull();
+
+    const source: WeatherDataSource = {
+      ...fakeSource([file("a", "2026-02-09T00:00:00Z")], {}),
+      fetchContent: async () => {
+        throw httpError(403, "User rate limit exceeded.");
+      },
+    };
+    const { result } = await syncFromSource(source, ok.store);
+
+    expect(result.error).toMatchObject({
+      kind: "quota",
+      message: "User rate limit exceeded.",
+    });
+  });
+});
+
+// ─── sensors ────────────────────────────────────────────────────────────────
+
+describe("sensorForFile", () => {
+  it("takes the first capture group of SENSOR_PATTERN", () => {
+    const f = { name: "log.csv", path: "bedroom/log.csv" };
+    expect(sensorForFile(f, "^([^/]+)/")).toBe("bedroom");
+    expect(sensorForFile({ name: "office_1.csv" }, "^(\\w+?)_")).toBe(
+      "office"
+    );
+  });
+
+  it("returns undefined without a pattern or a match", () => {
+    expect(sensorForFile({ name: "log.csv" }, undefined)).toBeUndefined();
+    expect(sensorForFile({ name: "log.csv" }, "^([^/]+)/")).toBeUndefined();
+  });
+});
+
+describe("syncFromSource sensors", () => {
+  afterEach(() => {
+    delete process.env.SENSOR_PATTERN;
+  });
+
+  it("tags readings with the sensor from the file path", async () => {
+    process.env.SENSOR_PATTERN = "^([^/]+)/";
+    const source = fakeSource(
+      [
+        { ...file("a", "2026-02-08T12:00:00Z"), path: "bedroom/a.csv" },
+        { ...file("b", "2026-02-08T18:00:00Z"), path: "b.csv" },
+      ],
+      { a: CSV_A, b: `${CSV_B.split("\n")[0]},office` }
+    );
+    const { result } = await syncFromSource(source, await loadStore(""));
+
+    expect(result.readings[0][0].sensor).toBe("bedroom");
+    // A sensor named on the line wins over the file's
+    expect(result.readings[1][0].sensor).toBe("office");
+  });
+});
+
+// ─── syncReadings ───────────────────────────────────────────────────────────
+
+describe("syncReadings", () => {
+  it("persists the store between syncs", async () => {
+    const storePath = path.join(tmpDir, "store.json");
+    const files = [file("a", "2026-02-08T12:00:00Z")];
+
+    await syncReadings(fakeSource(files, { a: CSV_A }), storePath);
+    const source = fakeSource(files, { a: CSV_A });
+    const result = await syncReadings(source, storePath);
+
+    expect(result.reused).toBe(1);
+    expect(source.fetchContent).not.toHaveBeenCalled();
+    expect(result.readings.flat()[0].temperature).toBe(18.1);
+  });
+
+  it("reads every file from a local source", async () => {
+    const source = createLocalSource(path.join(__dirname, "fixtures", "csv"));
+    const result = await syncReadings(source, path.join(tmpDir, "store.json"));
+
+    expect(result.downloaded).toBe(2);
+    expect(result.readings).toHaveLength(2);
+    expect(result.readings.flat().length).toBeGreaterThan(0);
+  });
+});
+
+// ─── loadStoredReadings ─────────────────────────────────────────────────────
+
+describe("loadStoredReadings", () => {
+  it("serves the last sync without contacting the source", async () => {
+    const storePath = path.join(tmpDir, "store.json");
+    const { syncedAt } = await syncReadings(
+      fakeSource([file("a", "2026-02-08T12:00:00Z")], { a: CSV_A }),
+      storePath
+    );
+
+    const result = await loadStoredReadings(storePath);
+
+    expect(result.syncedAt).toBe(syncedAt);
+    expect(result.readings.flat()[0].temperature).toBe(18.1);
+    expect(result.files.map((f) => f.id)).toEqual(["a"]);
+  });
+
+  it("has no sync time before the first sync", async () => {
+    const result = await loadStoredReadings(path.join(tmpDir, "none.json"));
+    expect(result).toMatchObject({ readings: [], syncedAt: null });
+  });
+});
+
+// ─── hasChangesSinceSync ────────────────────────────────────────────────────
+
+describe("hasChangesSinceSync", () => {
+  it("asks the source for files changed since the last sync", async () => {
+    const storePath = path.join(tmpDir, "store.json");
+    const source = fakeSource([file("a", "2026-02-08T12:00:00Z")], {
+      a: CSV_A,
+    });
+    const { syncedAt } = await syncReadings(source, storePath);
+
+    const listChangedFiles = vi.fn(async (since: Date) =>
+      filterChangedFiles([file("b", "2999-01-01T00:00:00Z")], since)
+    );
+    expect(
+      await hasChangesSinceSync({ ...source, listChangedFiles }, storePath)
+    ).toBe(true);
+    expect(listChangedFiles).toHaveBeenCalledWith(new Date(syncedAt!));
+
+    expect(
+      await hasChangesSinceSync(
+        { ...source, listChangedFiles: async () => [] },
+        storePath
+      )
+    ).toBe(false);
+  });
+
+  it("reports changes before the first sync", async () => {
+    const source = fakeSource([], {});
+    expect(
+      await hasChangesSinceSync(source, path.join(tmpDir, "none.json"))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { buildTiers, resolutionForSpan } from "@/lib/tiers";
+import { WeatherReading } from "@/lib/types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/** Two days of readings every 5 minutes from midnight UTC. */
+function twoDays(): WeatherReading[] {
+  const t0 = Date.parse("2026-02-08T00:00:00Z");
+  return Array.from({ length: (2 * DAY) / (5 * MINUTE) }, (_, i) => ({
+    timestamp: new Date(t0 + i * 5 * MINUTE),
+    temperature: 20 + (i % 3),
+    humidity: 50,
+  }));
+}
+
+// ─── buildTiers ─────────────────────────────────────────────────────────────
+
+describe("buildTiers", () => {
+  it("averages readings into 15-minute, hourly and daily buckets", () => {
+    const tiers = buildTiers(twoDays());
+
+    expect(tiers["15m"]).toHaveLength(2 * 96);
+    expect(tiers["1h"]).toHaveLength(2 * 24);
+    expect(tiers["1d"]).toHaveLength(2);
+    expect(tiers["1h"][0].count).toBe(12);
+  });
+
+  it("keeps min and max alongside the average", () => {
+    const [day] = buildTiers(twoDays())["1d"];
+
+    expect(day.temperature).toBe(21);
+    expect(day.minTemperature).toBe(20);
+    expect(day.maxTemperature).toBe(22);
+  });
+
+  it("splits days at midnight in the station's time zone", () => {
+    const days = buildTiers(twoDays(), "America/New_York")["1d"];
+
+    expect(days.map((d) => d.timestamp.toISOString())).toEqual([
+      "2026-02-07T05:00:00.000Z",
+      "2026-02-08T05:00:00.000Z",
+      "2026-02-09T05:00:00.000Z",
+    ]);
+    expect(days[0].count).toBe(60);
+  });
+});
+
+// ─── resolutionForSpan ──────────────────────────────────────────────────────
+
+describe("resolutionForSpan", () => {
+  it("serves raw readings for a week", () => {
+    expect(resolutionForSpan(7 * DAY)).toBe("raw");
+  });
+
+  it("moves to coarser tiers as the span grows", () => {
+    expect(resolutionForSpan(30 * DAY)).toBe("15m");
+    expect(resolutionForSpan(90 * DAY)).toBe("1h");
+    expect(resolutionForSpan(365 * DAY)).toBe("1d");
+  });
+});
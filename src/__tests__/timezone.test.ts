@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  addDays,
+  daysBetween,
+  getSourceTimeZone,
+  getStationTimeZone,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseZonedTimestamp,
+  startOfDay,
+  toDateKey,
+} from "@/lib/timezone";
+
+const HOUR = 60 * 60 * 1000;
+
+// ─── getTimeZoneOffset ──────────────────────────────────────────────────────
+
+describe("getTimeZoneOffset", () => {
+  it("returns zero for UTC", () => {
+    expect(getTimeZoneOffset(new Date("2026-02-08T12:00:00Z"), "UTC")).toBe(0);
+  });
+
+  it("tracks daylight saving time", () => {
+    const winter = new Date("2026-01-15T12:00:00Z");
+    const summer = new Date("2026-07-15T12:00:00Z");
+    expect(getTimeZoneOffset(winter, "America/New_York")).toBe(-5 * HOUR);
+    expect(getTimeZoneOffset(summer, "America/New_York")).toBe(-4 * HOUR);
+  });
+});
+
+// ─── parseZonedTimestamp ────────────────────────────────────────────────────
+
+describe("parseZonedTimestamp", () => {
+  function iso(value: string, timeZone: string) {
+    return parseZonedTimestamp(value, timeZone).toISOString();
+  }
+
+  it("treats naive timestamps as wall-clock time in the zone", () => {
+    expect(iso("2026-02-08 12:00:21", "UTC")).toBe("2026-02-08T12:00:21.000Z");
+    expect(iso("2026-02-08 12:00:21", "Europe/Berlin")).toBe(
+      "2026-02-08T11:00:21.000Z"
+    );
+    expect(iso("2026-07-08 12:00:21", "America/New_York")).toBe(
+      "2026-07-08T16:00:21.000Z"
+    );
+  });
+
+  it("accepts a T separator and fractional seconds", () => {
+    expect(iso("2026-02-08T12:00:21.5", "UTC")).toBe(
+      "2026-02-08T12:00:21.500Z"
+    );
+  });
+
+  it("respects explicit offsets instead of the zone", () => {
+    expect(iso("2026-02-08T12:00:21Z", "America/New_York")).toBe(
+      "2026-02-08T12:00:21.000Z"
+    );
+  });
+
+  it("moves times skipped by spring-forward past the gap", () => {
+    // New York jumps from 02:00 EST to 03:00 EDT on 2026-03-08
+    expect(iso("2026-03-08 02:30:00", "America/New_York")).toBe(
+      "2026-03-08T07:30:00.000Z" // 03:30 EDT
+    );
+  });
+
+  it("resolves times repeated by fall-back to the first occurrence", () => {
+    // Berlin repeats 02:00–03:00 on 2026-10-25 (CEST, then CET)
+    expect(iso("2026-10-25 02:30:00", "Europe/Berlin")).toBe(
+      "2026-10-25T00:30:00.000Z" // 02:30 CEST
+    );
+    expect(iso("2026-10-25 03:30:00", "Europe/Berlin")).toBe(
+      "2026-10-25T02:30:00.000Z" // 03:30 CET
+    );
+  });
+
+  it("returns an invalid Date for impossible timestamps", () => {
+    const impossible = parseZonedTimestamp("2026-02-30 12:00:00", "UTC");
+    const garbage = parseZonedTimestamp("not-a-date", "UTC");
+    expect(isNaN(impossible.getTime())).toBe(true);
+    expect(isNaN(garbage.getTime())).toBe(true);
+  });
+});
+
+// ─── toDateKey / isValidTimeZone ────────────────────────────────────────────
+
+describe("toDateKey", () => {
+  it("formats the calendar date in the given zone", () => {
+    const date = new Date("2026-02-09T03:00:00Z");
+    expect(toDateKey(date, "UTC")).toBe("2026-02-09");
+    expect(toDateKey(date, "America/New_York")).toBe("2026-02-08");
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects garbage", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+// ─── calendar dates ─────────────────────────────────────────────────────────
+
+describe("calendar date helpers", () => {
+  it("adds days across month and year ends", () => {
+    expect(addDays("2026-02-28", 1)).toBe("2026-03-01");
+    expect(addDays("2026-01-01", -1)).toBe("2025-12-31");
+  });
+
+  it("counts days between dates", () => {
+    expect(daysBetween("2026-02-01", "2026-02-01")).toBe(0);
+    expect(daysBetween("2026-03-01", "2026-04-01")).toBe(31);
+  });
+
+  it("finds midnight in the given zone, including on DST days", () => {
+    expect(startOfDay("2026-02-08", "UTC").toISOString()).toBe(
+      "2026-02-08T00:00:00.000Z"
+    );
+    // New York springs forward at 2am on 8 March, after midnight
+    expect(startOfDay("2026-03-08", "America/New_York").toISOString()).toBe(
+      "2026-03-08T05:00:00.000Z"
+    );
+  });
+});
+
+// ─── configuration ──────────────────────────────────────────────────────────
+
+describe("getStationTimeZone / getSourceTimeZone", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("default to UTC", () => {
+    vi.stubEnv("WEATHER_TIMEZONE", "");
+    vi.stubEnv("WEATHER_SOURCE_TIMEZONE", "");
+    expect(getStationTimeZone()).toBe("UTC");
+    expect(getSourceTimeZone()).toBe("UTC");
+  });
+
+  it("use the station zone for the source unless overridden", () => {
+    vi.stubEnv("WEATHER_TIMEZONE", "Europe/Berlin");
+    vi.stubEnv("WEATHER_SOURCE_TIMEZONE", "");
+    expect(getSourceTimeZone()).toBe("Europe/Berlin");
+
+    vi.stubEnv("WEATHER_SOURCE_TIMEZONE", "America/New_York");
+    expect(getSourceTimeZone()).toBe("America/New_York");
+  });
+
+  it("fall back when the configured zone is invalid", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("WEATHER_TIMEZONE", "Nowhere/Special");
+    expect(getStationTimeZone()).toBe("UTC");
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import type { SourceFile, WeatherDataSource } from "@/lib/data-source";
+import { ConfigError } from "@/lib/errors";
+import { httpError } from "./helpers";
+
+let source: WeatherDataSource;
+
+// Run the data function directly instead of through Next's cache
+vi.mock("next/cache", () => ({
+  unstable_cache: <T>(fn: T) => fn,
+  revalidateTag: vi.fn(),
+}));
+
+vi.mock("@/lib/data-source", () => ({
+  getDataSource: () => source,
+}));
+
+// Spied on to tell whether notifications could have gone out
+vi.mock("@/lib/alerts", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/alerts")>();
+  return { ...actual, checkAlerts: vi.fn(actual.checkAlerts) };
+});
+
+const { getWeatherData, refreshWeatherData } = await import(
+  "@/lib/weather-data"
+);
+const { checkAlerts } = await import("@/lib/alerts");
+
+/** One CSV line from `sensor`, `days` days before Feb 15 2026 at noon. */
+function line(days: number, temperature: number, sensor: string) {
+  const date = new Date(Date.UTC(2026, 1, 15 - days, 12));
+  const stamp = date.toISOString().slice(0, 19).replace("T", " ");
+  const values = `Humidity: 50.00%  Temp: ${temperature.toFixed(2)}C`;
+  return `${stamp},${values},${sensor}`;
+}
+
+/** A source serving each CSV as its own unchanging file. */
+function csvSource(contents: Record<string, string>): WeatherDataSource {
+  const files: SourceFile[] = Object.keys(contents).map((id) => ({
+    id,
+    name: `${id}.csv`,
+    modifiedTime: "2026-02-15T12:00:00Z",
+    size: contents[id].length,
+  }));
+  return {
+    name: "fake",
+    listFiles: async () => files,
+    fetchContent: async (f) => contents[f.id],
+    listChangedFiles: async () => files,
+  };
+}
+
+/** A source that can't be listed, failing with `error`. */
+function failingSource(error: unknown) {
+  return {
+    name: "fake",
+    listFiles: vi.fn(async (): Promise<SourceFile[]> => {
+      throw error;
+    }),
+    fetchContent: async () => "",
+    listChangedFiles: async () => [],
+  };
+}
+
+const BEDROOM = {
+  bedroom: [line(2, 20, "bedroom"), line(1, 22, "bedroom")].join("\n"),
+};
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await mkdtemp(path.join(os.tmpdir(), "weather-data-"));
+  vi.stubEnv("WEATHER_STORE_PATH", path.join(tmpDir, "store.json"));
+  vi.stubEnv("INGEST_STORE_PATH", path.join(tmpDir, "ingested.json"));
+  vi.stubEnv("ALERT_STATE_PATH", path.join(tmpDir, "alerts.json"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.mocked(checkAlerts).mockClear();
+  // Clear any failure remembered by the previous test
+  refreshWeatherData();
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+// ─── weekOverWeek ───────────────────────────────────────────────────────────
+
+describe("getWeatherData weekOverWeek", () => {
+  it("compares each sensor's weeks on their own", async () => {
+    source = csvSource({
+      bedroom: [line(10, 20, "bedroom"), line(1, 22, "bedroom")].join("\n"),
+      balcony: [line(9, 4, "balcony"), line(2, 8, "balcony")].join("\n"),
+    });
+
+    const { weekOverWeek } = await getWeatherData();
+
+    expect(Object.keys(weekOverWeek).sort()).toEqual(["balcony", "bedroom"]);
+    expect(weekOverWeek.bedroom.previous.avgTemperature).toBe(20);
+    expect(weekOverWeek.bedroom.delta.avgTemperature).toBe(2);
+    expect(weekOverWeek.balcony.current.maxTemperature).toBe(8);
+    expect(weekOverWeek.balcony.delta.minTemperature).toBe(4);
+  });
+
+  it("leaves out sensors without readings in both weeks", async () => {
+    source = csvSource({
+      bedroom: [line(10, 20, "bedroom"), line(1, 22, "bedroom")].join("\n"),
+      office: line(1, 19, "office"),
+    });
+
+    const { weekOverWeek } = await getWeatherData();
+
+    expect(Object.keys(weekOverWeek)).toEqual(["bedroom"]);
+  });
+});
+
+// ─── failures ───────────────────────────────────────────────────────────────
+
+describe("getWeatherData when the source fails", () => {
+  it("serves the last synced readings on rate limits", async () => {
+    source = csvSource(BEDROOM);
+    const synced = await getWeatherData();
+
+    refreshWeatherData();
+    source = failingSource(httpError(429, "Too Many Requests"));
+    const data = await getWeatherData();
+
+    expect(data.error).toMatchObject({ kind: "quota" });
+    expect(data.readings).toEqual(synced.readings);
+    expect(data.stats).toEqual(synced.stats);
+    expect(data.syncedAt).toBe(synced.syncedAt);
+  });
+
+  it("serves the last synced readings on network errors", async () => {
+    source = csvSource(BEDROOM);
+    const synced = await getWeatherData();
+
+    refreshWeatherData();
+    source = failingSource(
+      Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })
+    );
+    const data = await getWeatherData();
+
+    expect(data.error).toMatchObject({ kind: "network" });
+    expect(data.readings).toEqual(synced.readings);
+  });
+
+  it("shows nothing on errors that won't pass by themselves", async () => {
+    source = csvSource(BEDROOM);
+    expect((await getWeatherData()).readings).toHaveLength(2);
+
+    for (const [kind, error] of [
+      ["auth", httpError(401)],
+      ["config", new ConfigError("GOOGLE_DRIVE_FOLDER_ID is not set")],
+    ] as const) {
+      refreshWeatherData();
+      source = failingSource(error);
+      const data = await getWeatherData();
+
+      expect(data.error).toMatchObject({ kind, message: error.message });
+      expect(data.readings).toEqual([]);
+      expect(data.stats).toBeNull();
+      expect(data.syncedAt).toBeNull();
+    }
+  });
+
+  it("waits five minutes before trying the source again", async () => {
+    const now = Date.parse("2026-02-15T12:00:00Z");
+    const clock = vi.spyOn(Date, "now").mockReturnValue(now);
+    const failing = failingSource(httpError(429));
+    source = failing;
+
+    await getWeatherData();
+    clock.mockReturnValue(now + 4 * 60 * 1000);
+    const meanwhile = await getWeatherData();
+
+    expect(failing.listFiles).toHaveBeenCalledTimes(1);
+    expect(meanwhile.error).toMatchObject({ kind: "quota" });
+
+    clock.mockReturnValue(now + 5 * 60 * 1000);
+    source = csvSource(BEDROOM);
+    const recovered = await getWeatherData();
+
+    expect(recovered.error).toBeNull();
+    expect(recovered.readings).toHaveLength(2);
+  });
+
+  it("reports files that failed to download", async () => {
+    source = {
+      ...csvSource(BEDROOM),
+      fetchContent: async () => {
+        throw httpError(429, "Too Many Requests");
+      },
+    };
+    const data = await getWeatherData();
+
+    expect(data.error).toMatchObject({ kind: "quota" });
+    expect(data.readings).toEqual([]);
+  });
+
+  it("retries at once after a refresh", async () => {
+    source = failingSource(httpError(429));
+    await getWeatherData();
+
+    refreshWeatherData();
+    source = csvSource(BEDROOM);
+
+    expect((await getWeatherData()).error).toBeNull();
+  });
+
+  it("lists alerts from stale data without notifying again", async () => {
+    // Recent enough for the readings to count
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2026-02-14T13:00:00Z"));
+    vi.stubEnv(
+      "ALERT_RULES",
+      JSON.stringify([
+        {
+          id: "warm",
+          metric: "temperature",
+          condition: "above",
+          threshold: 21,
+        },
+      ])
+    );
+    source = csvSource(BEDROOM);
+    await getWeatherData();
+    expect(checkAlerts).toHaveBeenCalledTimes(1);
+
+    refreshWeatherData();
+    source = failingSource(httpError(429));
+    const data = await getWeatherData();
+
+    expect(checkAlerts).toHaveBeenCalledTimes(1);
+    expect(data.alerts.map((a) => a.ruleId)).toEqual(["warm"]);
+  });
+});
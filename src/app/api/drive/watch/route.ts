@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { watchDriveChanges } from "@/lib/google-drive";
+import { assertBearerToken, errorResponse } from "@/lib/api";
+
+/**
+ * POST /api/drive/watch
+ *
+ * Register /api/drive/webhook (or DRIVE_WEBHOOK_URL, when the public URL
+ * differs from the one this request came in on) for Drive change
+ * notifications. Requires "Authorization: Bearer $REVALIDATE_SECRET".
+ * The channel reports changes anywhere in the service account's Drive;
+ * the webhook checks the folder before refreshing. Drive closes channels after a week at most, so call this from a weekly
+ * cron job; the response says when the channel expires.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertBearerToken(request, process.env.REVALIDATE_SECRET);
+
+    const token = process.env.DRIVE_WEBHOOK_TOKEN;
+    if (!token) {
+      throw new Error("DRIVE_WEBHOOK_TOKEN environment variable is not set");
+    }
+    const address =
+      process.env.DRIVE_WEBHOOK_URL ||
+      `${request.nextUrl.origin}/api/drive/webhook`;
+
+    return NextResponse.json(await watchDriveChanges(address, token));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
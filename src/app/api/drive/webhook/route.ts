@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshWeatherData } from "@/lib/weather-data";
+import { getDataSource } from "@/lib/data-source";
+import { hasChangesSinceSync } from "@/lib/sync-store";
+import { assertSecret, errorResponse } from "@/lib/api";
+
+/** Ask the source whether the notification concerns any CSV file. */
+async function csvFilesChanged(): Promise<boolean> {
+  try {
+    return await hasChangesSinceSync(getDataSource());
+  } catch (error) {
+    // Better a needless refresh than a missed one
+    console.error("Failed to list changed files:", error);
+    return true;
+  }
+}
+
+/**
+ * POST /api/drive/webhook
+ *
+ * Receives Drive push notifications for the channel registered through
+ * /api/drive/watch, and refreshes the cached data when something in the
+ * folder changes, so a new CSV shows up without waiting for the 30-minute
+ * revalidate. Notifications must carry DRIVE_WEBHOOK_TOKEN in
+ * X-Goog-Channel-Token. Drive doesn't say which file changed, so the
+ * source's change feed is asked whether any CSV was added or modified
+ * since the last sync before refreshing; the sync store then downloads
+ * only those files.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertSecret(
+      request.headers.get("x-goog-channel-token"),
+      process.env.DRIVE_WEBHOOK_TOKEN,
+      "Missing or invalid channel token"
+    );
+
+    // "sync" only confirms that the channel was set up
+    const state = request.headers.get("x-goog-resource-state");
+    if (state !== "sync" && (await csvFilesChanged())) refreshWeatherData();
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshWeatherData } from "@/lib/weather-data";
+import { parseIngestBody, storeIngestedReadings } from "@/lib/ingest";
+import { getSourceTimeZone } from "@/lib/timezone";
+import { assertBearerToken, errorResponse } from "@/lib/api";
+
+/**
+ * POST /api/ingest?sensor=
+ *
+ * Lets the Pi push readings as it takes them rather than waiting for the
+ * next rclone upload. Requires "Authorization: Bearer $INGEST_TOKEN". The
+ * body is lines in the logger's own format ("2026-02-08 12:00:21,
+ * Humidity: 59.00%  Temp: 18.10C"), or with a JSON content type an array
+ * of {timestamp, temperature, humidity, sensor?}. `sensor` applies to
+ * readings that don't name one. Pushed readings are deduplicated against
+ * the Drive archive, so send the same timestamps the Pi logs. The response
+ * counts what was accepted, new and rejected, like the status page.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    assertBearerToken(request, process.env.INGEST_TOKEN);
+
+    const { readings, diagnostics } = parseIngestBody(
+      await request.text(),
+      request.headers.get("content-type"),
+      getSourceTimeZone(),
+      request.nextUrl.searchParams.get("sensor") || undefined
+    );
+    const stored = await storeIngestedReadings(readings);
+
+    // Serve the new readings on the next request, not in 30 minutes, and
+    // push them to open dashboards
+    if (stored > 0) refreshWeatherData();
+
+    return NextResponse.json({
+      accepted: diagnostics.acceptedLines,
+      stored,
+      rejected: diagnostics.rejectedLines,
+      rejectReasons: diagnostics.rejectReasons,
+      samples: diagnostics.samples,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest } from "next/server";
+import {
+  getWeatherData,
+  serializeReading,
+  deserializeReading,
+  serializeAggregate,
+  deserializeAggregate,
+} from "@/lib/weather-data";
+import { filterByWindow } from "@/lib/csv-parser";
+import { deriveMetrics } from "@/lib/derived-metrics";
+import { downsampleReadings } from "@/lib/downsample";
+import { RESOLUTIONS, resolutionForSpan } from "@/lib/tiers";
+import { WeatherReading } from "@/lib/types";
+import {
+  parseDateParam,
+  parseEnumParam,
+  parsePositiveIntParam,
+  assertOrderedRange,
+  assertDataAvailable,
+  jsonWithETag,
+  errorResponse,
+} from "@/lib/api";
+
+// Upper bound on `points`, about the width of a large screen in pixels
+const MAX_POINTS = 5000;
+
+/**
+ * GET /api/readings?from=&to=&resolution=&sensor=&derived=&points=
+ *
+ * Readings between `from` and `to` (inclusive ISO-8601 timestamps, both
+ * optional), either raw or averaged into 15m / 1h / 1d buckets, from one
+ * sensor or (by default) all of them. The buckets are pre-computed during
+ * sync; `resolution=auto` picks the finest one suited to the span, and the
+ * response says which was used. Averaged rows also carry min/max/count.
+ * With `derived=true`, each reading also carries dew point, heat index,
+ * humidex, absolute humidity and VPD. With `points=N`, each sensor's
+ * series is downsampled to N min/max buckets, which keeps spikes and dips
+ * while bounding the response size. Readings removed as sensor glitches
+ * are listed separately under `flagged`. Answers 503 with the kind of
+ * failure when the data source can't be read and nothing was synced.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = parseDateParam(params, "from");
+    const to = parseDateParam(params, "to");
+    const resolution = parseEnumParam(
+      params,
+      "resolution",
+      ["auto", ...RESOLUTIONS],
+      "raw"
+    );
+    const derived =
+      parseEnumParam(params, "derived", ["true", "false"], "false") ===
+      "true";
+    const points = parsePositiveIntParam(params, "points", MAX_POINTS);
+    assertOrderedRange(from, to);
+
+    const data = await getWeatherData();
+    assertDataAvailable(data);
+    const { readings, flagged, tiers, sensors } = data;
+    const sensor = parseEnumParam(params, "sensor", ["all", ...sensors], "all");
+
+    let served = resolution;
+    if (served === "auto") {
+      const first = readings[0]?.timestamp;
+      const last = readings[readings.length - 1]?.timestamp;
+      const start = from?.getTime() ?? (first ? Date.parse(first) : 0);
+      const end = to?.getTime() ?? (last ? Date.parse(last) : 0);
+      served = resolutionForSpan(end - start);
+    }
+
+    function select<T extends WeatherReading>(rows: T[]): T[] {
+      const picked = filterByWindow(
+        rows.filter((r) => sensor === "all" || r.sensor === sensor),
+        from,
+        to
+      );
+      return points ? downsampleReadings(picked, points) : picked;
+    }
+
+    const selected =
+      served === "raw"
+        ? select(readings.map(deserializeReading)).map(serializeReading)
+        : select(tiers[served].map(deserializeAggregate)).map(
+            serializeAggregate
+          );
+
+    return jsonWithETag(request, {
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      resolution: served,
+      sensor,
+      points: points ?? null,
+      readings: selected.map((r) =>
+        derived ? { ...r, ...deriveMetrics(r) } : r
+      ),
+      // Raw glitches the cleaning stage removed, for marking on charts
+      flagged: flagged.filter(
+        (r) =>
+          (sensor === "all" || r.sensor === sensor) &&
+          (!from || r.timestamp >= from.toISOString()) &&
+          (!to || r.timestamp <= to.toISOString())
+      ),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
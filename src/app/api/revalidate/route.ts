@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshWeatherData } from "@/lib/weather-data";
+import { REFRESH_COOKIE, isRefreshSession } from "@/lib/session";
+import { assertBearerToken, errorResponse } from "@/lib/api";
+
+/**
+ * POST /api/revalidate
+ *
+ * Drop the cached dashboard data so the next request syncs with the data
+ * source, e.g. right after the Pi uploads. Requires "Authorization: Bearer
+ * $REVALIDATE_SECRET", or the session cookie the "Refresh now" button
+ * signs in for. Open live streams pick up the result at once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = request.cookies.get(REFRESH_COOKIE)?.value;
+    if (!isRefreshSession(session, process.env.REFRESH_TOKEN)) {
+      assertBearerToken(request, process.env.REVALIDATE_SECRET);
+    }
+
+    refreshWeatherData();
+    return NextResponse.json({
+      revalidated: true,
+      now: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  REFRESH_COOKIE,
+  REFRESH_SESSION_MAX_AGE,
+  createRefreshSession,
+  isRefreshSession,
+} from "@/lib/session";
+import { assertSecret, errorResponse } from "@/lib/api";
+
+/**
+ * GET /api/session
+ *
+ * Whether this browser is signed in to refresh the data, so the dashboard
+ * only offers "Refresh now" to the owner.
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json(
+    {
+      authenticated: isRefreshSession(
+        request.cookies.get(REFRESH_COOKIE)?.value,
+        process.env.REFRESH_TOKEN
+      ),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/**
+ * POST /api/session
+ *
+ * Sign in with {"token": REFRESH_TOKEN}. The response sets an httpOnly
+ * cookie that lets this browser call /api/revalidate for 30 days.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      token?: unknown;
+    } | null;
+    const token = typeof body?.token === "string" ? body.token : undefined;
+    assertSecret(token, process.env.REFRESH_TOKEN, "Invalid token");
+
+    const response = NextResponse.json({ authenticated: true });
+    response.cookies.set(
+      REFRESH_COOKIE,
+      createRefreshSession(process.env.REFRESH_TOKEN!),
+      {
+        httpOnly: true,
+        sameSite: "strict",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: REFRESH_SESSION_MAX_AGE,
+      }
+    );
+    return response;
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/session
+ *
+ * Sign out: forget the session cookie.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false });
+  response.cookies.delete(REFRESH_COOKIE);
+  return response;
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import {
+  getWeatherData,
+  deserializeReading,
+  serializeStats,
+} from "@/lib/weather-data";
+import {
+  computeStats,
+  filterByDateRange,
+  filterByWindow,
+} from "@/lib/csv-parser";
+import {
+  parseDateParam,
+  parseEnumParam,
+  assertOrderedRange,
+  assertDataAvailable,
+  jsonWithETag,
+  errorResponse,
+} from "@/lib/api";
+import { type DateRange } from "@/lib/types";
+
+const RANGES: readonly DateRange[] = ["24h", "7d", "30d", "all"];
+
+/**
+ * GET /api/stats?range=&from=&to=&sensor=
+ *
+ * Summary statistics over one of the dashboard's date ranges
+ * (defaults to "all"), optionally narrowed to `from`/`to` (inclusive
+ * ISO-8601 timestamps), for one sensor or (by default) all of them.
+ * Answers 503 with the kind of failure when the data source can't be read
+ * and nothing was synced.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const range = parseEnumParam(params, "range", RANGES, "all");
+    const from = parseDateParam(params, "from");
+    const to = parseDateParam(params, "to");
+    assertOrderedRange(from, to);
+
+    const data = await getWeatherData();
+    assertDataAvailable(data);
+    const { readings, stats, sensors, sensorStats } = data;
+    const sensor = parseEnumParam(params, "sensor", ["all", ...sensors], "all");
+
+    let rangeStats;
+    if (range === "all" && !from && !to) {
+      rangeStats = sensor === "all" ? stats : sensorStats[sensor];
+    } else {
+      const selected = readings.filter(
+        (r) => sensor === "all" || r.sensor === sensor
+      );
+      rangeStats = serializeStats(
+        computeStats(
+          filterByWindow(
+            filterByDateRange(selected.map(deserializeReading), range),
+            from,
+            to
+          )
+        )
+      );
+    }
+
+    return jsonWithETag(request, {
+      range,
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      sensor,
+      stats: rangeStats,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest } from "next/server";
+import { getWeatherData, onRefresh } from "@/lib/weather-data";
+import {
+  livePosition,
+  liveUpdateSince,
+  sourceStatus,
+  sseMessage,
+  type LivePosition,
+} from "@/lib/live";
+import { parseTimestampsParam, errorResponse } from "@/lib/api";
+
+// Each check reads the cached data, so polling often is cheap
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// Comment lines keep proxies from closing a quiet connection
+const HEARTBEAT_MS = 25 * 1000;
+
+// Hosts cap how long a response may run; clients reconnect and resume
+const STREAM_LIFETIME_MS = 5 * 60 * 1000;
+
+/**
+ * GET /api/stream?since=
+ *
+ * Server-Sent Events stream of new data. `since` is a JSON object of the
+ * latest reading the client has from each sensor, e.g.
+ * {"bedroom":"2026-02-08T12:00:00Z"}; by default, what there is when it
+ * connects. Whenever newer readings arrive, an "update" event carries them
+ * with the updated overall and per-sensor stats. A "source" event says
+ * whether the data source could be read, on connecting and whenever that
+ * changes. Pushed readings and on-demand refreshes are checked for at
+ * once, and the scheduled cache refresh within POLL_INTERVAL_MS. After a
+ * few minutes the server sends "reconnect" and closes, and the client
+ * reconnects with the latest `since` it has seen.
+ */
+export async function GET(request: NextRequest) {
+  let since: LivePosition | undefined;
+  try {
+    since = parseTimestampsParam(request.nextUrl.searchParams, "since");
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let stop: (cancelled?: boolean) => void = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let sentUpTo = since ?? null;
+      let sentStatus: string | null = null;
+      let closed = false;
+      let pending = Promise.resolve();
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const check = async () => {
+        const data = await getWeatherData();
+
+        const status = sourceStatus(data);
+        if (JSON.stringify(status) !== sentStatus) {
+          send(sseMessage("source", status));
+          sentStatus = JSON.stringify(status);
+        }
+
+        if (!data.stats) return;
+        const position = livePosition(data.sensorStats);
+        if (sentUpTo === null) {
+          // Connected without a position: only what arrives from now on
+          sentUpTo = position;
+          return;
+        }
+
+        const update = liveUpdateSince(data, sentUpTo);
+        if (update) {
+          send(sseMessage("update", update));
+          sentUpTo = { ...sentUpTo, ...position };
+        }
+      };
+
+      // One check at a time, so an update is never sent twice
+      const schedule = () => {
+        pending = pending
+          .then(check)
+          .catch((error) => console.error("Live update failed:", error));
+      };
+
+      const poll = setInterval(schedule, POLL_INTERVAL_MS);
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      const lifetime = setTimeout(() => {
+        send(sseMessage("reconnect", null));
+        stop();
+      }, STREAM_LIFETIME_MS);
+      const unsubscribe = onRefresh(schedule);
+
+      stop = (cancelled = false) => {
+        if (closed) return;
+        closed = true;
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        clearTimeout(lifetime);
+        unsubscribe();
+        // A cancelled stream is already closed
+        if (!cancelled) controller.close();
+      };
+      request.signal.addEventListener("abort", () => stop());
+
+      send(": connected\n\n");
+      schedule();
+    },
+    cancel() {
+      stop(true);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx-style proxies from buffering events
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
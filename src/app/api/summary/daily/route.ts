@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { getWeatherData } from "@/lib/weather-data";
+import {
+  parseDateKeyParam,
+  assertOrderedRange,
+  assertDataAvailable,
+  jsonWithETag,
+  errorResponse,
+} from "@/lib/api";
+
+/**
+ * GET /api/summary/daily?from=&to=
+ *
+ * Per-day rollups, optionally limited to an inclusive YYYY-MM-DD range.
+ * Answers 503 when the data source can't be read and nothing was synced.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = parseDateKeyParam(params, "from");
+    const to = parseDateKeyParam(params, "to");
+    assertOrderedRange(from, to);
+
+    const data = await getWeatherData();
+    assertDataAvailable(data);
+    const { dailySummaries } = data;
+    const summaries = dailySummaries.filter(
+      (s) => (!from || s.date >= from) && (!to || s.date <= to)
+    );
+
+    return jsonWithETag(request, { summaries });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
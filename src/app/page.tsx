@@ -1,12 +1,17 @@
 import { Suspense } from "react";
 import { ArchitectureDiagram } from "@/components/architecture-diagram";
-import { DashboardHeader } from "@/components/dashboard-header";
-import { WeatherCharts } from "@/components/weather-charts";
-import { ThemeToggle } from "@/components/theme-toggle";
+import { AlertBanner } from "@/components/alert-banner";
+import { LiveDashboard } from "@/components/live-dashboard";
+import { DailySummaryView } from "@/components/daily-summary";
+import { SiteHeader } from "@/components/site-header";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
 import { getWeatherData } from "@/lib/weather-data";
+import { rangeCutoff } from "@/lib/csv-parser";
+import { getStationTimeZone } from "@/lib/timezone";
+import { getGapThresholdMs } from "@/lib/gaps";
+import { sourceStatus } from "@/lib/live";
 
 // Revalidate at the page level too (30 min)
 export const revalidate = 1800;
@@ -32,13 +37,44 @@ function ChartSkeleton() {
 }
 
 async function DashboardContent() {
-  const { readings, stats } = await getWeatherData();
+  const {
+    readings,
+    flagged,
+    stats,
+    sensors,
+    sensorStats,
+    health,
+    weekOverWeek,
+    calibrations,
+    dailySummaries,
+    alerts,
+    syncedAt,
+    error,
+  } = await getWeatherData();
+  // Enough for the default ranges; the charts fetch longer ones on demand
+  const cutoff = rangeCutoff("7d")!.toISOString();
+  const recent = readings.filter((r) => r.timestamp >= cutoff);
 
   return (
     <>
-      <DashboardHeader stats={stats} />
+      <AlertBanner alerts={alerts} />
+      <LiveDashboard
+        initial={{
+          readings: recent,
+          flagged: flagged.filter((r) => r.timestamp >= cutoff),
+          stats,
+          sensorStats,
+          sensors,
+        }}
+        initialSource={sourceStatus({ error, syncedAt })}
+        health={health}
+        weekOverWeek={weekOverWeek}
+        calibrations={calibrations}
+        stationTimeZone={getStationTimeZone()}
+        gapThresholdMs={getGapThresholdMs()}
+      />
       <Separator className="my-6 sm:my-8 opacity-50" />
-      <WeatherCharts readings={readings} />
+      <DailySummaryView summaries={dailySummaries} />
     </>
   );
 }
@@ -47,17 +83,7 @@ export default function Home() {
   return (
     <div className="min-h-screen bg-background">
       {/* Top bar */}
-      <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-md">
-        <div className="mx-auto max-w-6xl flex items-center justify-between px-4 sm:px-6 h-14">
-          <div className="flex items-center gap-2">
-            <div className="h-2.5 w-2.5 rounded-full bg-emerald-500" />
-            <span className="text-sm font-medium text-foreground">
-              insidemyroom
-            </span>
-          </div>
-          <ThemeToggle />
-        </div>
-      </header>
+      <SiteHeader />
 
       <main className="mx-auto max-w-6xl px-4 sm:px-6 pb-16">
         {/* Architecture diagram - first thing on the page */}
@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { SiteHeader } from "@/components/site-header";
+import { SignInForm } from "@/components/sign-in-form";
+
+export const metadata: Metadata = {
+  title: "Sign in — Inside My Room",
+  robots: { index: false },
+};
+
+export default function SignInPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <SiteHeader />
+
+      <main className="mx-auto max-w-6xl px-4 sm:px-6 py-6 sm:py-8 pb-16 space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground tracking-tight">
+            Sign in
+          </h1>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            Enter REFRESH_TOKEN to get a &ldquo;Refresh now&rdquo; button on
+            the dashboard in this browser
+          </p>
+        </div>
+
+        <SignInForm />
+      </main>
+    </div>
+  );
+}
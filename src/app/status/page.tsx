@@ -0,0 +1,419 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { formatDistanceToNow } from "date-fns";
+import { SiteHeader } from "@/components/site-header";
+import { DegradedBanner } from "@/components/degraded-banner";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getWeatherData } from "@/lib/weather-data";
+import { formatDuration, freshness } from "@/lib/gaps";
+import { type FlagReason } from "@/lib/cleaning";
+import { describeCalibration } from "@/lib/calibration";
+import { getStationTimeZone } from "@/lib/timezone";
+import { REFRESH_COOKIE, isRefreshSession } from "@/lib/session";
+import { type FileReport, type RejectReason } from "@/lib/types";
+
+export const metadata: Metadata = {
+  title: "Status — Inside My Room",
+};
+
+const REASON_LABELS: Record<RejectReason, string> = {
+  "sensor-error": "Sensor read failed",
+  "missing-comma": "Missing comma",
+  "invalid-timestamp": "Bad timestamp",
+  "missing-humidity": "No humidity value",
+  "missing-temperature": "No temperature value",
+  "invalid-number": "Unparseable number",
+  "invalid-sensor": "Bad sensor id",
+};
+
+const FLAG_LABELS: Record<FlagReason, string> = {
+  "out-of-range": "Out of range",
+  spike: "Spike",
+};
+
+// Longest outages listed; the rest are only counted
+const MAX_OUTAGES_SHOWN = 25;
+
+function formatTime(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+function SummaryCard({ title, value }: { title: string; value: number }) {
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardContent className="p-4 sm:p-5">
+        <p className="text-xs sm:text-sm text-muted-foreground font-medium uppercase tracking-wider">
+          {title}
+        </p>
+        <p className="mt-1 text-2xl sm:text-3xl font-bold tabular-nums text-foreground">
+          {value.toLocaleString()}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function FileStatus({ file }: { file: FileReport }) {
+  if (file.downloadError) {
+    return <Badge variant="destructive">Download failed</Badge>;
+  }
+  if (!file.diagnostics) {
+    return <Badge variant="secondary">Not parsed</Badge>;
+  }
+  if (file.diagnostics.rejectedLines > 0) {
+    return (
+      <Badge variant="outline" className="text-amber-500 border-amber-500/50">
+        {file.diagnostics.rejectedLines} rejected
+      </Badge>
+    );
+  }
+  return <Badge variant="secondary">OK</Badge>;
+}
+
+/** Files with problems first, then newest first. */
+function sortFiles(files: FileReport[]) {
+  const severity = (f: FileReport) =>
+    f.downloadError ? 2 : (f.diagnostics?.rejectedLines ?? 0) > 0 ? 1 : 0;
+
+  return [...files].sort(
+    (a, b) =>
+      severity(b) - severity(a) ||
+      (b.modifiedTime ?? "").localeCompare(a.modifiedTime ?? "")
+  );
+}
+
+export default async function StatusPage() {
+  const {
+    files,
+    outages,
+    sensorStats,
+    flagged,
+    calibrations,
+    syncedAt,
+    error,
+  } = await getWeatherData();
+  const timeZone = getStationTimeZone();
+  // Error messages can name buckets or accounts: only the owner sees them.
+  // Reading the cookie renders the page per request; the data stays cached.
+  const owner = isRefreshSession(
+    (await cookies()).get(REFRESH_COOKIE)?.value,
+    process.env.REFRESH_TOKEN
+  );
+
+  // Sensors whose latest reading is older than the sync schedule explains
+  const silent = Object.entries(sensorStats)
+    .filter(([, s]) => freshness(new Date(s.lastUpdated)) !== "fresh")
+    .map(([sensor, s]) => ({ sensor, since: s.lastUpdated }));
+  const multiSensor = Object.keys(sensorStats).length > 1;
+
+  const accepted = files.reduce(
+    (n, f) => n + (f.diagnostics?.acceptedLines ?? 0),
+    0
+  );
+  const rejected = files.reduce(
+    (n, f) => n + (f.diagnostics?.rejectedLines ?? 0),
+    0
+  );
+  const failedDownloads = files.filter((f) => f.downloadError).length;
+
+  const reasonTotals = new Map<RejectReason, number>();
+  for (const f of files) {
+    for (const [reason, count] of Object.entries(
+      f.diagnostics?.rejectReasons ?? {}
+    )) {
+      const key = reason as RejectReason;
+      reasonTotals.set(key, (reasonTotals.get(key) ?? 0) + (count ?? 0));
+    }
+  }
+
+  const flagTotals = new Map<FlagReason, number>();
+  for (const r of flagged) {
+    flagTotals.set(r.reason, (flagTotals.get(r.reason) ?? 0) + 1);
+  }
+
+  const sorted = sortFiles(files);
+  const withSamples = sorted.filter(
+    (f) => (f.diagnostics?.samples.length ?? 0) > 0
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SiteHeader />
+
+      <main className="mx-auto max-w-6xl px-4 sm:px-6 py-6 sm:py-8 pb-16 space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground tracking-tight">
+            Data Status
+          </h1>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            How each CSV file from the Pi was downloaded and parsed, and
+            where readings are missing
+          </p>
+        </div>
+
+        <DegradedBanner
+          error={error}
+          syncedAt={syncedAt}
+          hasData={files.length > 0}
+          showMessage={owner}
+        />
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <SummaryCard title="Files" value={files.length} />
+          <SummaryCard title="Accepted lines" value={accepted} />
+          <SummaryCard title="Rejected lines" value={rejected} />
+          <SummaryCard title="Failed downloads" value={failedDownloads} />
+        </div>
+
+        {reasonTotals.size > 0 && (
+          <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+              <CardTitle className="text-base font-semibold">
+                Rejection reasons
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 sm:px-6 pb-4 flex flex-wrap gap-2">
+              {[...reasonTotals.entries()].map(([reason, count]) => (
+                <Badge key={reason} variant="outline">
+                  {REASON_LABELS[reason]}: {count.toLocaleString()}
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {calibrations.length > 0 && (
+          <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+              <CardTitle className="text-base font-semibold">
+                Calibration history
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-2 sm:px-4 pb-4 overflow-x-auto">
+              <table className="w-full text-sm tabular-nums">
+                <thead>
+                  <tr className="border-b border-border/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                    <th className="px-2 py-2">Sensor</th>
+                    <th className="px-2 py-2">Effective from</th>
+                    <th className="px-2 py-2">Correction</th>
+                    <th className="px-2 py-2">Note</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {calibrations.map((c) => (
+                    <tr
+                      key={`${c.sensor ?? "*"}-${c.effectiveFrom}`}
+                      className="border-b border-border/30 last:border-0"
+                    >
+                      <td className="px-2 py-1.5 text-foreground">
+                        {c.sensor ?? "All sensors"}
+                      </td>
+                      <td className="px-2 py-1.5 text-foreground">
+                        {formatTime(c.effectiveFrom, timeZone)}
+                      </td>
+                      <td className="px-2 py-1.5 text-foreground">
+                        {describeCalibration(c)}
+                      </td>
+                      <td className="px-2 py-1.5 text-muted-foreground">
+                        {c.note ?? "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        {flagTotals.size > 0 && (
+          <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+              <CardTitle className="text-base font-semibold">
+                Readings removed as sensor glitches
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 sm:px-6 pb-4 flex flex-wrap gap-2">
+              {[...flagTotals.entries()].map(([reason, count]) => (
+                <Badge key={reason} variant="outline">
+                  {FLAG_LABELS[reason]}: {count.toLocaleString()}
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+            <CardTitle className="text-base font-semibold">Outages</CardTitle>
+          </CardHeader>
+          <CardContent className="px-2 sm:px-4 pb-4 overflow-x-auto">
+            {outages.length === 0 && silent.length === 0 ? (
+              <p className="px-2 py-6 text-sm text-muted-foreground">
+                No gaps in the readings.
+              </p>
+            ) : (
+              <table className="w-full text-sm tabular-nums">
+                <thead>
+                  <tr className="border-b border-border/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                    {multiSensor && <th className="px-2 py-2">Sensor</th>}
+                    <th className="px-2 py-2">Last reading</th>
+                    <th className="px-2 py-2">Resumed</th>
+                    <th className="px-2 py-2">Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {silent.map((s) => (
+                    <tr
+                      key={`silent-${s.sensor}`}
+                      className="border-b border-border/30 last:border-0"
+                    >
+                      {multiSensor && (
+                        <td className="px-2 py-1.5 text-foreground">
+                          {s.sensor}
+                        </td>
+                      )}
+                      <td className="px-2 py-1.5 text-foreground">
+                        {formatTime(s.since, timeZone)}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <Badge variant="destructive">Ongoing</Badge>
+                      </td>
+                      <td className="px-2 py-1.5 text-foreground">
+                        {formatDistanceToNow(new Date(s.since))}
+                      </td>
+                    </tr>
+                  ))}
+                  {outages.slice(0, MAX_OUTAGES_SHOWN).map((o) => (
+                    <tr
+                      key={`${o.sensor}-${o.start}`}
+                      className="border-b border-border/30 last:border-0"
+                    >
+                      {multiSensor && (
+                        <td className="px-2 py-1.5 text-foreground">
+                          {o.sensor}
+                        </td>
+                      )}
+                      <td className="px-2 py-1.5 text-foreground">
+                        {formatTime(o.start, timeZone)}
+                      </td>
+                      <td className="px-2 py-1.5 text-muted-foreground">
+                        {formatTime(o.end, timeZone)}
+                      </td>
+                      <td className="px-2 py-1.5 text-foreground">
+                        {formatDuration(o.durationMs)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {outages.length > MAX_OUTAGES_SHOWN && (
+              <p className="px-2 pt-2 text-xs text-muted-foreground">
+                {outages.length - MAX_OUTAGES_SHOWN} shorter gaps not shown
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+            <CardTitle className="text-base font-semibold">Files</CardTitle>
+          </CardHeader>
+          <CardContent className="px-2 sm:px-4 pb-4 overflow-x-auto">
+            {files.length === 0 ? (
+              <p className="px-2 py-6 text-sm text-muted-foreground">
+                No files found in the data source.
+              </p>
+            ) : (
+              <table className="w-full text-sm tabular-nums">
+                <thead>
+                  <tr className="border-b border-border/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                    <th className="px-2 py-2">File</th>
+                    <th className="px-2 py-2">Modified</th>
+                    <th className="px-2 py-2">Accepted</th>
+                    <th className="px-2 py-2">Rejected</th>
+                    <th className="px-2 py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sorted.map((f) => (
+                    <tr
+                      key={f.id}
+                      className="border-b border-border/30 last:border-0"
+                    >
+                      <td className="px-2 py-1.5 font-mono text-xs text-foreground">
+                        {f.name}
+                        {owner && f.downloadError && (
+                          <p className="text-destructive font-sans">
+                            {f.downloadError}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-2 py-1.5 text-muted-foreground">
+                        {f.modifiedTime
+                          ? formatDistanceToNow(new Date(f.modifiedTime), {
+                              addSuffix: true,
+                            })
+                          : "—"}
+                      </td>
+                      <td className="px-2 py-1.5 text-foreground">
+                        {f.diagnostics?.acceptedLines.toLocaleString() ?? "—"}
+                      </td>
+                      <td className="px-2 py-1.5 text-foreground">
+                        {f.diagnostics?.rejectedLines.toLocaleString() ?? "—"}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <FileStatus file={f} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        {withSamples.length > 0 && (
+          <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+              <CardTitle className="text-base font-semibold">
+                Sample rejected lines
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 sm:px-6 pb-4 space-y-4">
+              {withSamples.map((f) => (
+                <div key={f.id}>
+                  <p className="font-mono text-xs text-foreground mb-1">
+                    {f.name}
+                  </p>
+                  <ul className="space-y-1">
+                    {f.diagnostics!.samples.map((s) => (
+                      <li
+                        key={s.lineNumber}
+                        className="flex flex-col sm:flex-row sm:gap-3 text-xs"
+                      >
+                        <span className="shrink-0 text-muted-foreground tabular-nums">
+                          L{s.lineNumber} · {REASON_LABELS[s.reason]}
+                        </span>
+                        <code className="break-all text-foreground/80">
+                          {s.line}
+                        </code>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { formatDistanceToNow } from "date-fns";
+import type { ActiveAlert } from "@/lib/alerts";
+
+export function AlertBanner({ alerts }: { alerts: ActiveAlert[] }) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div
+      role="alert"
+      className="mb-6 rounded-xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 sm:px-5"
+    >
+      <p className="text-sm font-semibold text-amber-600 dark:text-amber-400">
+        {alerts.length === 1
+          ? "1 active alert"
+          : `${alerts.length} active alerts`}
+      </p>
+      <ul className="mt-1 space-y-0.5">
+        {alerts.map((alert) => (
+          <li
+            key={`${alert.ruleId}:${alert.sensor ?? ""}`}
+            className="flex flex-col sm:flex-row sm:items-baseline sm:justify-between gap-x-4 text-sm"
+          >
+            <span className="text-foreground">{alert.message}</span>
+            <span className="text-xs text-muted-foreground">
+              since{" "}
+              {formatDistanceToNow(new Date(alert.since), { addSuffix: true })}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { type DailySummary } from "@/lib/types";
+
+interface DailySummaryProps {
+  summaries: DailySummary[];
+}
+
+type SortKey = keyof DailySummary;
+
+const COLUMNS: { key: SortKey; label: string; unit: string }[] = [
+  { key: "date", label: "Date", unit: "" },
+  { key: "minTemperature", label: "Min Temp", unit: "°C" },
+  { key: "avgTemperature", label: "Avg Temp", unit: "°C" },
+  { key: "maxTemperature", label: "Max Temp", unit: "°C" },
+  { key: "minHumidity", label: "Min Hum", unit: "%" },
+  { key: "avgHumidity", label: "Avg Hum", unit: "%" },
+  { key: "maxHumidity", label: "Max Hum", unit: "%" },
+  { key: "readingCount", label: "Readings", unit: "" },
+];
+
+// Muted axis color that works on both dark and light backgrounds
+const AXIS_COLOR = "#a1a1aa";
+
+/**
+ * Format a YYYY-MM-DD key for display. The key is already a calendar date,
+ * so it is formatted in UTC to avoid shifting it by the browser's offset.
+ */
+function formatDateKey(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function sortSummaries(
+  summaries: DailySummary[],
+  key: SortKey,
+  direction: "asc" | "desc"
+) {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...summaries].sort((a, b) => {
+    const av = a[key];
+    const bv = b[key];
+    if (typeof av === "string" && typeof bv === "string") {
+      return av.localeCompare(bv) * sign;
+    }
+    return ((av as number) - (bv as number)) * sign;
+  });
+}
+
+function BandTooltip({
+  active,
+  payload,
+  label,
+}: {
+  active?: boolean;
+  payload?: { payload: DailySummary }[];
+  label?: string;
+}) {
+  if (!active || !payload || payload.length === 0 || !label) return null;
+
+  const day = payload[0].payload;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card/95 backdrop-blur-sm p-3 shadow-lg">
+      <p className="text-xs text-muted-foreground mb-2">
+        {formatDateKey(label)}
+      </p>
+      <div className="flex items-center gap-2 text-sm">
+        <div className="h-2.5 w-2.5 rounded-full bg-orange-500" />
+        <span className="text-muted-foreground">Temperature:</span>
+        <span className="font-semibold tabular-nums text-foreground">
+          {day.minTemperature}° — {day.maxTemperature}°C
+        </span>
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        <div className="h-2.5 w-2.5 rounded-full bg-blue-500" />
+        <span className="text-muted-foreground">Humidity:</span>
+        <span className="font-semibold tabular-nums text-foreground">
+          {day.minHumidity}% — {day.maxHumidity}%
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function DailySummaryView({ summaries }: DailySummaryProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("date");
+  const [direction, setDirection] = useState<"asc" | "desc">("desc");
+  const axisColor = AXIS_COLOR;
+
+  const chartData = useMemo(
+    () =>
+      summaries.map((s) => ({
+        ...s,
+        temperatureRange: [s.minTemperature, s.maxTemperature],
+        humidityRange: [s.minHumidity, s.maxHumidity],
+      })),
+    [summaries]
+  );
+
+  const sorted = useMemo(
+    () => sortSummaries(summaries, sortKey, direction),
+    [summaries, sortKey, direction]
+  );
+
+  function toggleSort(key: SortKey) {
+    if (key === sortKey) {
+      setDirection(direction === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setDirection("desc");
+    }
+  }
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className="space-y-6">
+      {/* Daily min/max band chart */}
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+          <CardTitle className="text-base font-semibold">
+            Daily Range
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-2 sm:px-4 pb-4">
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={chartData}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={axisColor}
+                opacity={0.4}
+              />
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatDateKey}
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+              />
+              <YAxis
+                yAxisId="temp"
+                stroke="#f97316"
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => `${v}°`}
+                domain={["auto", "auto"]}
+                width={40}
+              />
+              <YAxis
+                yAxisId="humid"
+                orientation="right"
+                stroke="#3b82f6"
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => `${v}%`}
+                domain={["auto", "auto"]}
+                width={40}
+              />
+              <Tooltip content={<BandTooltip />} />
+              <Legend
+                verticalAlign="top"
+                height={36}
+                iconType="circle"
+                iconSize={8}
+                formatter={(value) => (
+                  <span className="text-xs text-muted-foreground">
+                    {value}
+                  </span>
+                )}
+              />
+              <Area
+                yAxisId="temp"
+                type="monotone"
+                dataKey="temperatureRange"
+                name="Temp range"
+                stroke="none"
+                fill="#f97316"
+                fillOpacity={0.2}
+              />
+              <Line
+                yAxisId="temp"
+                type="monotone"
+                dataKey="avgTemperature"
+                name="Avg temp"
+                stroke="#f97316"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Area
+                yAxisId="humid"
+                type="monotone"
+                dataKey="humidityRange"
+                name="Humidity range"
+                stroke="none"
+                fill="#3b82f6"
+                fillOpacity={0.2}
+              />
+              <Line
+                yAxisId="humid"
+                type="monotone"
+                dataKey="avgHumidity"
+                name="Avg humidity"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Sortable daily table */}
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
+          <CardTitle className="text-base font-semibold">
+            Daily Summary
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-2 sm:px-4 pb-4 overflow-x-auto">
+          <table className="w-full text-sm tabular-nums">
+            <thead>
+              <tr className="border-b border-border/50">
+                {COLUMNS.map((col) => (
+                  <th
+                    key={col.key}
+                    className="px-2 py-2 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground"
+                    aria-sort={
+                      sortKey === col.key
+                        ? direction === "asc"
+                          ? "ascending"
+                          : "descending"
+                        : "none"
+                    }
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(col.key)}
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                    >
+                      {col.label}
+                      {sortKey === col.key &&
+                        (direction === "asc" ? "▲" : "▼")}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((day) => (
+                <tr
+                  key={day.date}
+                  className="border-b border-border/30 last:border-0"
+                >
+                  {COLUMNS.map((col) => (
+                    <td key={col.key} className="px-2 py-1.5 text-foreground">
+                      {col.key === "date"
+                        ? formatDateKey(day.date)
+                        : col.key === "readingCount"
+                          ? day.readingCount.toLocaleString()
+                          : `${day[col.key]}${col.unit}`}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,21 @@
 "use client";
 
 import { Card, CardContent } from "@/components/ui/card";
+import { RefreshButton } from "@/components/refresh-button";
 import { formatDistanceToNow } from "date-fns";
+import { formatDelta, type PeriodComparison } from "@/lib/comparison";
+import { freshness, type Freshness } from "@/lib/gaps";
+import type { LiveStatus } from "@/lib/live";
+import {
+  calibrationFor,
+  describeCalibration,
+  type Calibration,
+} from "@/lib/calibration";
+import {
+  COMFORT_ZONE,
+  MOLD_RISK_HUMIDITY,
+  type RoomHealthReport,
+} from "@/lib/room-health";
 
 interface SerializedStats {
   currentTemperature: number;
@@ -56,7 +70,259 @@ function StatCard({
   );
 }
 
-export function DashboardHeader({ stats }: { stats: SerializedStats | null }) {
+const FRESHNESS_DOT: Record<Freshness, string> = {
+  fresh: "bg-emerald-500 animate-pulse",
+  late: "bg-amber-500",
+  stale: "bg-red-500",
+};
+
+const LIVE_INDICATOR: Record<LiveStatus, { dot: string; label: string }> = {
+  connecting: { dot: "bg-muted-foreground", label: "Connecting…" },
+  live: { dot: "bg-emerald-500", label: "Live" },
+  reconnecting: { dot: "bg-amber-500 animate-pulse", label: "Reconnecting…" },
+  offline: { dot: "bg-red-500", label: "Offline" },
+};
+
+/** Whether new readings are being streamed in right now. */
+function LiveIndicator({ status }: { status: LiveStatus }) {
+  const { dot, label } = LIVE_INDICATOR[status];
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 rounded-full border border-border/50 px-2 py-0.5 text-xs text-muted-foreground"
+      title={
+        status === "live"
+          ? "New readings appear as they arrive"
+          : "New readings will appear once reconnected"
+      }
+    >
+      <span className={`h-1.5 w-1.5 rounded-full ${dot}`} />
+      {label}
+    </span>
+  );
+}
+
+function scoreColor(score: number) {
+  return score >= 70
+    ? "text-emerald-500 dark:text-emerald-400"
+    : score >= 40
+      ? "text-amber-500 dark:text-amber-400"
+      : "text-red-500 dark:text-red-400";
+}
+
+/** Mold/comfort score for the last 7 days, with a bar per recent week. */
+function RoomHealthCard({
+  report,
+  sensor,
+}: {
+  report: RoomHealthReport;
+  sensor?: string;
+}) {
+  const { current, weekly } = report;
+  const comfortLabel =
+    `${COMFORT_ZONE.minTemperature}–${COMFORT_ZONE.maxTemperature}°C, ` +
+    `${COMFORT_ZONE.minHumidity}–${COMFORT_ZONE.maxHumidity}%`;
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm col-span-2 lg:col-span-1">
+      <CardContent className="p-4 sm:p-5">
+        <p className="text-xs sm:text-sm text-muted-foreground font-medium uppercase tracking-wider">
+          Room Health{sensor && ` · ${sensor}`}
+        </p>
+        <div className="mt-1 flex items-end justify-between gap-3">
+          <div className="flex items-baseline gap-1">
+            <span
+              className={`text-2xl sm:text-3xl font-bold tabular-nums ${scoreColor(current.score)}`}
+            >
+              {current.score}
+            </span>
+            <span className="text-sm text-muted-foreground">/100</span>
+          </div>
+          <div
+            className="flex h-8 items-end gap-0.5"
+            aria-label="Weekly room health trend"
+          >
+            {weekly.map((week) => (
+              <div
+                key={week.weekStart}
+                className="w-1.5 rounded-sm bg-muted-foreground/40"
+                style={{ height: `${Math.max(week.score, 4)}%` }}
+                title={`Week of ${week.weekStart}: ${week.score}/100`}
+              />
+            ))}
+          </div>
+        </div>
+        <p
+          className="mt-1 text-xs text-muted-foreground"
+          title={`Comfort zone: ${comfortLabel}`}
+        >
+          {current.comfortPercent}% comfortable · {current.hoursAboveMoldRisk}h
+          &gt; {MOLD_RISK_HUMIDITY}%
+        </p>
+        <p
+          className={`text-xs ${current.currentDampHours > 0 ? "text-amber-500" : "text-muted-foreground"}`}
+        >
+          {current.currentDampHours > 0
+            ? `Damp for ${current.currentDampHours}h now`
+            : `Longest damp spell: ${current.longestDampHours}h`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** How the last 7 days' averages and extremes moved against the 7 before. */
+function WeekOverWeekCard({
+  comparison,
+  sensor,
+}: {
+  comparison: PeriodComparison;
+  sensor?: string;
+}) {
+  const { current, delta } = comparison;
+  const rows = [
+    {
+      label: "Temperature",
+      unit: "°C",
+      avg: [current.avgTemperature, delta.avgTemperature],
+      high: [current.maxTemperature, delta.maxTemperature],
+      low: [current.minTemperature, delta.minTemperature],
+    },
+    {
+      label: "Humidity",
+      unit: "%",
+      avg: [current.avgHumidity, delta.avgHumidity],
+      high: [current.maxHumidity, delta.maxHumidity],
+      low: [current.minHumidity, delta.minHumidity],
+    },
+  ];
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardContent className="p-4 sm:p-5">
+        <p className="text-xs sm:text-sm text-muted-foreground font-medium uppercase tracking-wider">
+          Last 7 days vs previous 7{sensor && ` · ${sensor}`}
+        </p>
+        <div className="mt-2 grid grid-cols-[auto_repeat(3,1fr)] gap-x-4 gap-y-1 text-sm tabular-nums">
+          <span />
+          <span className="text-xs text-muted-foreground">Average</span>
+          <span className="text-xs text-muted-foreground">High</span>
+          <span className="text-xs text-muted-foreground">Low</span>
+          {rows.map((row) => (
+            <div key={row.label} className="contents">
+              <span className="text-muted-foreground">{row.label}</span>
+              {[row.avg, row.high, row.low].map(([value, change], i) => (
+                <span key={i}>
+                  <span className="font-semibold text-foreground">
+                    {value}
+                    {row.unit}
+                  </span>{" "}
+                  <span
+                    className={`text-xs ${change > 0 ? "text-orange-500 dark:text-orange-400" : change < 0 ? "text-blue-500 dark:text-blue-400" : "text-muted-foreground"}`}
+                  >
+                    {formatDelta(change, row.unit)}
+                  </span>
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Whether the values shown are corrected, and how: the calibration in
+ * effect at each sensor's latest reading.
+ */
+function CalibrationNote({
+  calibrations,
+  sensorStats,
+}: {
+  calibrations: Calibration[];
+  sensorStats: Record<string, SerializedStats>;
+}) {
+  const active = Object.entries(sensorStats).flatMap(([id, s]) => {
+    const calibration = calibrationFor(
+      calibrations,
+      id,
+      new Date(s.lastUpdated)
+    );
+    return calibration ? [{ id, calibration }] : [];
+  });
+
+  if (active.length === 0) {
+    return (
+      <span className="text-xs text-muted-foreground">
+        Uncalibrated sensor values
+      </span>
+    );
+  }
+
+  const descriptions = active.map((a) => describeCalibration(a.calibration));
+  const details = active
+    .map(({ id, calibration: c }) => {
+      const since = new Date(c.effectiveFrom).toLocaleDateString();
+      const note = c.note ? ` (${c.note})` : "";
+      return `${id}: ${describeCalibration(c)} since ${since}${note}`;
+    })
+    .join("\n");
+
+  return (
+    <span className="text-xs text-muted-foreground" title={details}>
+      Calibrated
+      {new Set(descriptions).size === 1 && ` (${descriptions[0]})`}
+    </span>
+  );
+}
+
+/** Latest conditions from one sensor, for the per-room row. */
+function SensorCard({ id, stats }: { id: string; stats: SerializedStats }) {
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardContent className="p-4 sm:p-5">
+        <p className="text-xs sm:text-sm text-muted-foreground font-medium uppercase tracking-wider">
+          {id}
+        </p>
+        <div className="mt-1 flex items-baseline gap-3 tabular-nums">
+          <span className="text-xl sm:text-2xl font-bold text-orange-500 dark:text-orange-400">
+            {stats.currentTemperature}°C
+          </span>
+          <span className="text-xl sm:text-2xl font-bold text-blue-500 dark:text-blue-400">
+            {stats.currentHumidity}%
+          </span>
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Avg {stats.avgTemperature}° / {stats.avgHumidity}% ·{" "}
+          {formatDistanceToNow(new Date(stats.lastUpdated), {
+            addSuffix: true,
+          })}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function DashboardHeader({
+  stats,
+  sensorStats = {},
+  health = {},
+  weekOverWeek = {},
+  calibrations = [],
+  live,
+}: {
+  stats: SerializedStats | null;
+  /** Stats per sensor; shown as their own row when there is more than one. */
+  sensorStats?: Record<string, SerializedStats>;
+  /** Room health per sensor; the worst-scoring room is shown. */
+  health?: Record<string, RoomHealthReport>;
+  /** Change against the previous week per sensor, where both have readings. */
+  weekOverWeek?: Record<string, PeriodComparison>;
+  /** Configured corrections, to say whether values are calibrated. */
+  calibrations?: Calibration[];
+  /** State of the live stream, when the page subscribes to one. */
+  live?: LiveStatus;
+}) {
   if (!stats) {
     return (
       <div className="text-center py-12">
@@ -64,15 +330,23 @@ export function DashboardHeader({ stats }: { stats: SerializedStats | null }) {
           Inside My Room
         </h1>
         <p className="text-muted-foreground mt-2">
-          No data available yet. Make sure your Google Drive credentials are configured.
+          No data available yet.
         </p>
       </div>
     );
   }
 
+  const worst = Object.entries(health).sort(
+    ([, a], [, b]) => a.current.score - b.current.score
+  )[0];
+  const comparisons = Object.entries(weekOverWeek).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+
   const lastUpdated = formatDistanceToNow(new Date(stats.lastUpdated), {
     addSuffix: true,
   });
+  const dataAge = freshness(new Date(stats.lastUpdated));
 
   return (
     <div className="space-y-6">
@@ -85,15 +359,26 @@ export function DashboardHeader({ stats }: { stats: SerializedStats | null }) {
             Weather station dashboard
           </p>
         </div>
-        <div className="flex items-center gap-2">
-          <div className="h-2 w-2 rounded-full bg-emerald-500 animate-pulse" />
+        <div className="flex flex-wrap items-center gap-2">
+          {live && <LiveIndicator status={live} />}
+          <div className={`h-2 w-2 rounded-full ${FRESHNESS_DOT[dataAge]}`} />
           <span className="text-xs text-muted-foreground">
             Updated {lastUpdated}
+            {dataAge === "late" && " · sync overdue"}
+            {dataAge === "stale" && " · station offline?"}
           </span>
+          <span className="text-xs text-muted-foreground">·</span>
+          <CalibrationNote
+            calibrations={calibrations}
+            sensorStats={sensorStats}
+          />
+          <RefreshButton />
         </div>
       </div>
 
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+      <div
+        className={`grid grid-cols-2 gap-3 sm:gap-4 ${worst ? "lg:grid-cols-5" : "lg:grid-cols-4"}`}
+      >
         <StatCard
           title="Temperature"
           value={stats.currentTemperature}
@@ -121,7 +406,37 @@ export function DashboardHeader({ stats }: { stats: SerializedStats | null }) {
           subtitle={`${stats.totalReadings.toLocaleString()} readings`}
           accent="neutral"
         />
+        {worst && (
+          <RoomHealthCard
+            report={worst[1]}
+            sensor={Object.keys(health).length > 1 ? worst[0] : undefined}
+          />
+        )}
       </div>
+
+      {comparisons.length > 0 && (
+        <div
+          className={`grid gap-3 sm:gap-4 ${comparisons.length > 1 ? "lg:grid-cols-2" : ""}`}
+        >
+          {comparisons.map(([id, comparison]) => (
+            <WeekOverWeekCard
+              key={id}
+              comparison={comparison}
+              sensor={Object.keys(sensorStats).length > 1 ? id : undefined}
+            />
+          ))}
+        </div>
+      )}
+
+      {Object.keys(sensorStats).length > 1 && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          {Object.entries(sensorStats)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([id, s]) => (
+              <SensorCard key={id} id={id} stats={s} />
+            ))}
+        </div>
+      )}
     </div>
   );
 }
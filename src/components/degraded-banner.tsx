@@ -0,0 +1,73 @@
+import { formatDistanceToNow } from "date-fns";
+import {
+  TRANSIENT_ERRORS,
+  type DataError,
+  type DataErrorKind,
+} from "@/lib/errors";
+
+const HEADLINES: Record<DataErrorKind, string> = {
+  config: "The data source isn't configured",
+  auth: "The data source rejected the credentials",
+  quota: "The data source is rate-limiting requests",
+  network: "The data source can't be reached",
+  parse: "The latest data couldn't be processed",
+  unknown: "Loading the latest data failed",
+};
+
+const FIXES: Partial<Record<DataErrorKind, string>> = {
+  config: "Check the data source settings in the environment.",
+  auth: "Check the service account or access keys.",
+};
+
+/**
+ * Says why the data shown may be out of date, or missing: which kind of
+ * failure it was, and how old the data from the last successful sync is.
+ */
+export function DegradedBanner({
+  error,
+  syncedAt,
+  hasData,
+  showMessage = false,
+}: {
+  /** Public pages get only the kind; the message may name accounts. */
+  error: (Pick<DataError, "kind" | "at"> & { message?: string }) | null;
+  /** When the data source was last read successfully. */
+  syncedAt: string | null;
+  /** Whether older data is being shown in the meantime. */
+  hasData: boolean;
+  /** Include the underlying error message, for the signed-in owner. */
+  showMessage?: boolean;
+}) {
+  if (!error) return null;
+
+  const transient = TRANSIENT_ERRORS.includes(error.kind);
+  const age =
+    syncedAt && formatDistanceToNow(new Date(syncedAt), { addSuffix: true });
+  const detail = hasData
+    ? `Showing data last synced ${age ?? "earlier"}` +
+      (transient ? "; retrying automatically." : ".")
+    : transient
+      ? "No data to show yet; retrying automatically."
+      : "No data to show until this is fixed.";
+
+  return (
+    <div
+      role="alert"
+      className={`mb-6 rounded-xl border px-4 py-3 sm:px-5 ${transient ? "border-amber-500/40 bg-amber-500/10" : "border-red-500/40 bg-red-500/10"}`}
+    >
+      <p
+        className={`text-sm font-semibold ${transient ? "text-amber-600 dark:text-amber-400" : "text-red-600 dark:text-red-400"}`}
+      >
+        {HEADLINES[error.kind]}
+      </p>
+      <p className="mt-0.5 text-sm text-foreground">
+        {detail} {FIXES[error.kind]}
+      </p>
+      {showMessage && error.message && (
+        <p className="mt-1 font-mono text-xs text-muted-foreground break-all">
+          {error.message}
+        </p>
+      )}
+    </div>
+  );
+}
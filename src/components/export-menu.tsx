@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { DownloadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  buildExport,
+  type ExportFormat,
+  type TemperatureUnit,
+} from "@/lib/export";
+import type { SerializedReading } from "@/lib/weather-data";
+
+const FORMATS: { label: string; value: ExportFormat }[] = [
+  { label: "CSV", value: "csv" },
+  { label: "JSON", value: "json" },
+  { label: "NDJSON", value: "ndjson" },
+];
+
+function triggerDownload(content: string, mimeType: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportMenu({
+  source,
+  rangeLabel,
+  disabled,
+}: {
+  /** /api/readings URL returning the raw readings to export. */
+  source: string;
+  rangeLabel: string;
+  disabled?: boolean;
+}) {
+  const [unit, setUnit] = useState<TemperatureUnit>("C");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Charts may show averaged tiers, so exports fetch the raw readings
+  async function handleExport(format: ExportFormat) {
+    setPending(true);
+    setError(null);
+    try {
+      const res = await fetch(source);
+      if (!res.ok) {
+        setError("Export failed");
+        return;
+      }
+      const { readings } = (await res.json()) as {
+        readings: SerializedReading[];
+      };
+      const file = buildExport(readings, format, unit);
+      const date = new Date().toISOString().slice(0, 10);
+      triggerDownload(
+        file.content,
+        file.mimeType,
+        `insidemyroom-${rangeLabel}-${date}.${file.extension}`
+      );
+    } catch {
+      setError("Export failed");
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-3 text-xs"
+            disabled={disabled || pending}
+          >
+            <DownloadIcon />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-44">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Temperature unit
+          </DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={unit}
+            onValueChange={(v) => setUnit(v as TemperatureUnit)}
+          >
+            <DropdownMenuRadioItem value="C">
+              Celsius (°C)
+            </DropdownMenuRadioItem>
+            <DropdownMenuRadioItem value="F">
+              Fahrenheit (°F)
+            </DropdownMenuRadioItem>
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            Download raw readings
+          </DropdownMenuLabel>
+          {FORMATS.map((f) => (
+            <DropdownMenuItem
+              key={f.value}
+              onSelect={() => handleExport(f.value)}
+            >
+              {f.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </span>
+  );
+}
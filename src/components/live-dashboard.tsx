@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { DashboardHeader } from "@/components/dashboard-header";
+import { DegradedBanner } from "@/components/degraded-banner";
+import { WeatherCharts } from "@/components/weather-charts";
+import { Separator } from "@/components/ui/separator";
+import { rangeCutoff } from "@/lib/csv-parser";
+import {
+  appendReadings,
+  livePosition,
+  reconnectDelay,
+  type LivePosition,
+  type LiveStatus,
+  type LiveUpdate,
+  type SourceStatus,
+} from "@/lib/live";
+import type { WeatherData } from "@/lib/weather-data";
+
+type LiveData = Pick<
+  WeatherData,
+  "readings" | "flagged" | "stats" | "sensorStats" | "sensors"
+>;
+
+interface LiveHandlers {
+  onUpdate: (update: LiveUpdate) => void;
+  onSource: (status: SourceStatus) => void;
+}
+
+/**
+ * Subscribe to /api/stream, resuming after the latest reading seen from
+ * each sensor, and report the connection's state. EventSource retries on
+ * its own at a fixed pace and gives up on HTTP errors, so it is replaced
+ * after every failure with an exponential backoff instead. Going offline
+ * pauses the retries.
+ */
+function useLiveUpdates(
+  since: LivePosition,
+  handlers: LiveHandlers
+): LiveStatus {
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const sinceRef = useRef(since);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    const disconnect = () => {
+      clearTimeout(retry);
+      source?.close();
+      source = null;
+    };
+
+    const connect = () => {
+      disconnect();
+      const params = new URLSearchParams();
+      if (Object.keys(sinceRef.current).length > 0) {
+        params.set("since", JSON.stringify(sinceRef.current));
+      }
+      source = new EventSource(`/api/stream?${params}`);
+
+      source.onopen = () => {
+        attempt = 0;
+        setStatus("live");
+      };
+      source.addEventListener("update", (event) => {
+        const update = JSON.parse(event.data) as LiveUpdate;
+        sinceRef.current = {
+          ...sinceRef.current,
+          ...livePosition(update.sensorStats),
+        };
+        handlersRef.current.onUpdate(update);
+      });
+      source.addEventListener("source", (event) => {
+        handlersRef.current.onSource(JSON.parse(event.data) as SourceStatus);
+      });
+      // The server ends streams after a while; pick up where it left off
+      source.addEventListener("reconnect", connect);
+      source.onerror = () => {
+        disconnect();
+        if (!navigator.onLine) {
+          setStatus("offline");
+          return;
+        }
+        setStatus("reconnecting");
+        retry = setTimeout(connect, reconnectDelay(attempt++));
+      };
+    };
+
+    const goOnline = () => {
+      attempt = 0;
+      setStatus("reconnecting");
+      connect();
+    };
+    const goOffline = () => {
+      disconnect();
+      setStatus("offline");
+    };
+
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    connect();
+
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      disconnect();
+    };
+  }, []);
+
+  return status;
+}
+
+/**
+ * The header and charts, kept up to date from the live stream: new
+ * readings are appended as they arrive and the stats replaced, without
+ * reloading the page. A banner says when the data source can't be read.
+ */
+export function LiveDashboard({
+  initial,
+  initialSource,
+  health,
+  weekOverWeek,
+  calibrations,
+  stationTimeZone,
+  gapThresholdMs,
+}: {
+  /** What the page was rendered with: the last 7 days of readings. */
+  initial: LiveData;
+  /** Whether the data source could be read when the page was rendered. */
+  initialSource: SourceStatus;
+  health: WeatherData["health"];
+  weekOverWeek: WeatherData["weekOverWeek"];
+  calibrations: WeatherData["calibrations"];
+  stationTimeZone: string;
+  gapThresholdMs: number;
+}) {
+  const [data, setData] = useState(initial);
+  const [source, setSource] = useState(initialSource);
+
+  const status = useLiveUpdates(livePosition(initial.sensorStats), {
+    onUpdate: (update) =>
+      setData((previous) => {
+        // The charts only show these readings for ranges up to 7 days
+        const cutoff = rangeCutoff("7d")!.toISOString();
+        return {
+          readings: appendReadings(previous.readings, update.readings, cutoff),
+          flagged: appendReadings(previous.flagged, update.flagged, cutoff),
+          stats: update.stats,
+          sensorStats: update.sensorStats,
+          sensors: update.sensors,
+        };
+      }),
+    onSource: setSource,
+  });
+
+  return (
+    <>
+      <DegradedBanner
+        error={source.error}
+        syncedAt={source.syncedAt}
+        hasData={data.stats !== null}
+      />
+      <DashboardHeader
+        stats={data.stats}
+        sensorStats={data.sensorStats}
+        health={health}
+        weekOverWeek={weekOverWeek}
+        calibrations={calibrations}
+        live={status}
+      />
+      <Separator className="my-6 sm:my-8 opacity-50" />
+      <WeatherCharts
+        readings={data.readings}
+        flagged={data.flagged}
+        sensors={data.sensors}
+        stationTimeZone={stationTimeZone}
+        gapThresholdMs={gapThresholdMs}
+      />
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { RefreshCwIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Whether this browser is signed in to refresh the data (see /sign-in).
+ * Null until the server has answered.
+ */
+export function useRefreshSession() {
+  const [authenticated, setAuthenticated] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    // Earlier versions kept REVALIDATE_SECRET itself in the browser
+    localStorage.removeItem("insidemyroom:revalidate-secret");
+
+    let cancelled = false;
+    fetch("/api/session")
+      .then((res) => (res.ok ? res.json() : { authenticated: false }))
+      .then((body: { authenticated: boolean }) => {
+        if (!cancelled) setAuthenticated(body.authenticated);
+      })
+      .catch(() => {
+        if (!cancelled) setAuthenticated(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return [authenticated, setAuthenticated] as const;
+}
+
+/**
+ * "Refresh now" for the owner: shown only to a browser signed in at
+ * /sign-in, and syncs with the data source on demand. New readings reach
+ * the charts over the live stream; the rest of the page re-renders.
+ */
+export function RefreshButton() {
+  const router = useRouter();
+  const [authenticated, setAuthenticated] = useRefreshSession();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    setPending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/revalidate", { method: "POST" });
+      if (res.status === 401) {
+        // Signed out elsewhere, or the session expired
+        setAuthenticated(false);
+        return;
+      }
+      if (!res.ok) {
+        setError("Refresh failed");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Refresh failed");
+    } finally {
+      setPending(false);
+    }
+  }
+
+  if (!authenticated) return null;
+
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <Button
+        size="xs"
+        variant="ghost"
+        className="text-muted-foreground"
+        onClick={refresh}
+        disabled={pending}
+        title="Sync with the data source now"
+      >
+        <RefreshCwIcon className={pending ? "animate-spin" : undefined} />
+        Refresh now
+      </Button>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </span>
+  );
+}
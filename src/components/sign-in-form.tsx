@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useRefreshSession } from "@/components/refresh-button";
+
+/**
+ * Trades REFRESH_TOKEN for the session cookie behind "Refresh now". The
+ * token itself is only sent once and never stored in the browser.
+ */
+export function SignInForm() {
+  const router = useRouter();
+  const [authenticated, setAuthenticated] = useRefreshSession();
+  const [token, setToken] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(method: "POST" | "DELETE") {
+    setPending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/session", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "POST" ? JSON.stringify({ token }) : undefined,
+      });
+      if (res.status === 401) {
+        setError("Wrong token");
+        return;
+      }
+      if (!res.ok) {
+        setError("Something went wrong");
+        return;
+      }
+      setToken("");
+      setAuthenticated(method === "POST");
+      if (method === "POST") router.push("/");
+    } catch {
+      setError("Something went wrong");
+    } finally {
+      setPending(false);
+    }
+  }
+
+  if (authenticated === null) return null;
+
+  if (authenticated) {
+    return (
+      <div className="flex items-center gap-3">
+        <span className="text-sm text-muted-foreground">
+          This browser can refresh the data.
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={pending}
+          onClick={() => submit("DELETE")}
+        >
+          Sign out
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (token) submit("POST");
+      }}
+    >
+      <input
+        type="password"
+        autoFocus
+        autoComplete="current-password"
+        placeholder="Refresh token"
+        aria-label="Refresh token"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        className="h-8 w-56 rounded-md border border-border/50 bg-background px-2 text-sm"
+      />
+      <Button type="submit" size="sm" disabled={pending || !token}>
+        Sign in
+      </Button>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </form>
+  );
+}
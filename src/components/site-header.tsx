@@ -0,0 +1,26 @@
+import Link from "next/link";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+export function SiteHeader() {
+  return (
+    <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/80 backdrop-blur-md">
+      <div className="mx-auto max-w-6xl flex items-center justify-between px-4 sm:px-6 h-14">
+        <Link href="/" className="flex items-center gap-2">
+          <div className="h-2.5 w-2.5 rounded-full bg-emerald-500" />
+          <span className="text-sm font-medium text-foreground">
+            insidemyroom
+          </span>
+        </Link>
+        <div className="flex items-center gap-4">
+          <Link
+            href="/status"
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Status
+          </Link>
+          <ThemeToggle />
+        </div>
+      </div>
+    </header>
+  );
+}
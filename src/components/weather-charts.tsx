@@ -1,6 +1,8 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
+import { useSearchParams } from "next/navigation";
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -10,21 +12,137 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  Brush,
+  ReferenceArea,
+  type MouseHandlerDataParam,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { type DateRange } from "@/lib/types";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExportMenu } from "@/components/export-menu";
+import {
+  alignByOffset,
+  comparePeriods,
+  formatDelta,
+} from "@/lib/comparison";
+import {
+  customRangeBounds,
+  presetToCustomRange,
+  rangeCutoff,
+  shiftCustomRange,
+} from "@/lib/csv-parser";
+import { deriveMetrics, type DerivedMetrics } from "@/lib/derived-metrics";
+import {
+  bucketsForWidth,
+  downsampleMinMax,
+  type ValueAccessor,
+} from "@/lib/downsample";
+import { findGaps, insertGapBreaks, type Gap } from "@/lib/gaps";
+import { TIER_MS, type Tier } from "@/lib/tiers";
+import { daysBetween, startOfDay, toDateKey } from "@/lib/timezone";
+import { type CustomDateRange, type DateRange } from "@/lib/types";
+import type {
+  SerializedFlaggedReading,
+  SerializedReading,
+} from "@/lib/weather-data";
 
-interface ChartDataPoint {
-  timestamp: string;
-  temperature: number;
-  humidity: number;
+type ChartDataPoint = SerializedReading;
+
+/**
+ * One row per time slot with a temperature_<i> / humidity_<i> column for
+ * each sensor i, as plotted by the overlay comparison charts.
+ */
+interface OverlayPoint {
+  time: string;
+  [column: string]: string | number;
 }
 
 interface WeatherChartsProps {
+  /** Raw readings from the last 7 days; other ranges are fetched. */
   readings: ChartDataPoint[];
+  /** Glitches removed from those readings, for the raw view and markers. */
+  flagged: SerializedFlaggedReading[];
+  /** Sensor ids present in the readings, sorted. */
+  sensors: string[];
+  /** IANA zone of the station, offered alongside UTC and browser-local. */
+  stationTimeZone: string;
+  /** Spacing between readings beyond which lines break. */
+  gapThresholdMs: number;
 }
 
+/** Sentinel select value for "whatever zone the browser is in". */
+const LOCAL_TIME_ZONE = "local";
+
+/** Sentinel select value for "overlay every sensor". */
+const ALL_SENSORS = "all";
+
+const SENSOR_COLORS = [
+  "#f97316",
+  "#3b82f6",
+  "#22c55e",
+  "#a855f7",
+  "#ec4899",
+  "#eab308",
+];
+
+/**
+ * Derived series the Combined View can add. Temperature-like metrics share
+ * the temperature axis; the others get hidden axes of their own.
+ */
+const DERIVED_SERIES: {
+  key: keyof DerivedMetrics;
+  label: string;
+  unit: string;
+  color: string;
+  axis: "temp" | "abs" | "vpd";
+}[] = [
+  {
+    key: "dewPoint",
+    label: "Dew point",
+    unit: "°C",
+    color: "#14b8a6",
+    axis: "temp",
+  },
+  {
+    key: "heatIndex",
+    label: "Heat index",
+    unit: "°C",
+    color: "#ef4444",
+    axis: "temp",
+  },
+  {
+    key: "humidex",
+    label: "Humidex",
+    unit: "°C",
+    color: "#eab308",
+    axis: "temp",
+  },
+  {
+    key: "absoluteHumidity",
+    label: "Abs. humidity",
+    unit: " g/m³",
+    color: "#6366f1",
+    axis: "abs",
+  },
+  {
+    key: "vaporPressureDeficit",
+    label: "VPD",
+    unit: " kPa",
+    color: "#84cc16",
+    axis: "vpd",
+  },
+];
+
+// Sensors log on the same 5-minute cadence but not in lockstep, so
+// overlay rows line them up by 5-minute slot
+const OVERLAY_SLOT_MS = 5 * 60 * 1000;
+
 const DATE_RANGES: { label: string; value: DateRange }[] = [
   { label: "24h", value: "24h" },
   { label: "7d", value: "7d" },
@@ -32,44 +150,386 @@ const DATE_RANGES: { label: string; value: DateRange }[] = [
   { label: "All", value: "all" },
 ];
 
-function filterReadings(readings: ChartDataPoint[], range: DateRange) {
-  if (range === "all") return readings;
+/** A preset range, or whole calendar days picked by the user. */
+type RangeSelection = DateRange | CustomDateRange;
+
+/** Presets covered by the readings the page is rendered with. */
+const INITIAL_RANGES: DateRange[] = ["24h", "7d"];
+
+/**
+ * Period overlaid for comparison: none, the one just before the shown
+ * range, or one of the same length starting on a chosen day.
+ */
+type Comparison = "off" | "previous" | { from: string };
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
 
+/**
+ * Read the selected range from the URL (?range=30d or
+ * ?from=2026-02-01&to=2026-02-07), defaulting to the last 7 days.
+ */
+function selectionFromParams(params: URLSearchParams): RangeSelection {
+  const from = params.get("from");
+  const to = params.get("to");
+  if (from && to && DATE_KEY.test(from) && DATE_KEY.test(to) && from <= to) {
+    return { from, to };
+  }
+
+  const range = params.get("range");
+  return DATE_RANGES.find((r) => r.value === range)?.value ?? "7d";
+}
+
+/** Read the comparison from the URL (?compare=previous|2026-01-01). */
+function comparisonFromParams(params: URLSearchParams): Comparison {
+  const compare = params.get("compare");
+  if (compare === "previous") return compare;
+  if (compare && DATE_KEY.test(compare)) return { from: compare };
+  return "off";
+}
+
+/**
+ * Reflect the selection in the query string without a navigation, so the
+ * window can be bookmarked and shared.
+ */
+function writeSelectionToURL(selection: RangeSelection) {
+  const params = new URLSearchParams(window.location.search);
+  params.delete("range");
+  params.delete("from");
+  params.delete("to");
+  if (typeof selection === "string") {
+    params.set("range", selection);
+  } else {
+    params.set("from", selection.from);
+    params.set("to", selection.to);
+  }
+  window.history.replaceState(null, "", `?${params}`);
+}
+
+function writeComparisonToURL(comparison: Comparison) {
+  const params = new URLSearchParams(window.location.search);
+  if (comparison === "off") params.delete("compare");
+  else {
+    params.set(
+      "compare",
+      comparison === "previous" ? comparison : comparison.from
+    );
+  }
+  window.history.replaceState(null, "", `?${params}`);
+}
+
+function filterReadings<T extends ChartDataPoint>(
+  readings: T[],
+  selection: RangeSelection,
+  timeZone: string
+): T[] {
+  if (typeof selection !== "string") {
+    const { from, to } = customRangeBounds(selection, timeZone);
+    return readings.filter((r) => {
+      const t = new Date(r.timestamp);
+      return t >= from && t <= to;
+    });
+  }
+
+  const cutoff = rangeCutoff(selection);
+  if (!cutoff) return readings;
+
+  return readings.filter((r) => new Date(r.timestamp) >= cutoff);
+}
+
+/** Start and end of a selection; presets end now, "all" has no start. */
+function selectionBounds(
+  selection: RangeSelection,
+  timeZone: string
+): { from?: Date; to: Date } {
+  if (typeof selection !== "string") {
+    return customRangeBounds(selection, timeZone);
+  }
   const now = new Date();
-  const msMap: Record<string, number> = {
-    "24h": 24 * 60 * 60 * 1000,
-    "7d": 7 * 24 * 60 * 60 * 1000,
-    "30d": 30 * 24 * 60 * 60 * 1000,
+  return { from: rangeCutoff(selection, now) ?? undefined, to: now };
+}
+
+/**
+ * How far before the shown range the compared period starts, in ms, or
+ * null when not comparing. Chosen periods start at midnight of their day.
+ */
+function comparisonOffset(
+  comparison: Comparison,
+  selection: RangeSelection,
+  bounds: { from?: Date; to: Date },
+  timeZone: string
+): number | null {
+  if (comparison === "off" || !bounds.from) return null;
+  const start = bounds.from.getTime();
+  if (comparison !== "previous") {
+    return start - startOfDay(comparison.from, timeZone).getTime();
+  }
+  if (typeof selection === "string") return bounds.to.getTime() - start;
+  // Whole days back, so DST changes don't skew the alignment
+  const previous = shiftCustomRange(selection, -1);
+  return start - startOfDay(previous.from, timeZone).getTime();
+}
+
+/** "Jan 5 – Jan 11" for the compared period. */
+function formatPeriod(from: number, to: number, timeZone?: string) {
+  const format = (ms: number) =>
+    new Date(ms).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone,
+    });
+  const [a, b] = [format(from), format(to)];
+  return a === b ? a : `${a} – ${b}`;
+}
+
+/** /api/readings URL for a window (epoch ms or Date, both optional). */
+function readingsURL(
+  from: Date | number | undefined,
+  to: Date | number | undefined,
+  resolution: "auto" | "raw",
+  sensor?: string
+) {
+  const params = new URLSearchParams({ resolution });
+  if (from !== undefined) params.set("from", new Date(from).toISOString());
+  if (to !== undefined) params.set("to", new Date(to).toISOString());
+  if (sensor) params.set("sensor", sensor);
+  return `/api/readings?${params}`;
+}
+
+interface FetchedReadings {
+  resolution: string;
+  readings: ChartDataPoint[];
+  flagged: SerializedFlaggedReading[];
+}
+
+interface FetchState {
+  /** Null while loading, when there is no URL, or after a failure. */
+  data: FetchedReadings | null;
+  failed: boolean;
+  retry: () => void;
+}
+
+/**
+ * Fetch readings from the API. Callers show what they have while `url`
+ * loads, and should say so when it failed rather than pass that off as
+ * the requested range.
+ */
+function useFetchedReadings(url: string | null): FetchState {
+  const [result, setResult] = useState<{
+    url: string;
+    data: FetchedReadings | null;
+  } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!url) return;
+    const controller = new AbortController();
+    fetch(url, { signal: controller.signal })
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((data: FetchedReadings) => setResult({ url, data }))
+      .catch(() => {
+        if (!controller.signal.aborted) setResult({ url, data: null });
+      });
+    return () => controller.abort();
+  }, [url, attempt]);
+
+  const current = result?.url === url ? result : null;
+  return {
+    data: current?.data ?? null,
+    failed: current !== null && current.data === null,
+    retry: () => {
+      setResult(null);
+      setAttempt((n) => n + 1);
+    },
   };
+}
 
-  const cutoff = new Date(now.getTime() - msMap[range]);
-  return readings.filter((r) => new Date(r.timestamp) >= cutoff);
+function forSensor<T extends ChartDataPoint>(readings: T[], sensor: string) {
+  return sensor === ALL_SENSORS
+    ? readings
+    : readings.filter((r) => r.sensor === sensor);
+}
+
+/** Put removed glitches back among the readings, in time order. */
+function withFlagged(
+  readings: ChartDataPoint[],
+  flagged: SerializedFlaggedReading[]
+): ChartDataPoint[] {
+  if (flagged.length === 0) return readings;
+  const glitches = flagged.map(
+    ({ timestamp, temperature, humidity, sensor }) => ({
+      timestamp,
+      temperature,
+      humidity,
+      sensor,
+    })
+  );
+  return [...readings, ...glitches].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
 }
 
-function downsampleData(data: ChartDataPoint[], maxPoints: number = 200) {
-  if (data.length <= maxPoints) return data;
+/** The preset whose axis labels suit a span of `days`. */
+function tickRangeForDays(days: number): DateRange {
+  return days <= 1 ? "24h" : days <= 7 ? "7d" : "30d";
+}
+
+/** The preset whose axis labels suit the selection's span. */
+function tickRangeFor(selection: RangeSelection): DateRange {
+  if (typeof selection === "string") return selection;
+  return tickRangeForDays(daysBetween(selection.from, selection.to) + 1);
+}
+
+/** Part of the selected range zoomed into, as epoch ms (inclusive). */
+interface ZoomWindow {
+  from: number;
+  to: number;
+}
+
+// Charts are measured after mount; until then assume a typical width
+const DEFAULT_CHART_WIDTH = 800;
+
+/** Track an element's rendered width. */
+function useElementWidth<T extends HTMLElement>() {
+  const ref = useRef<T>(null);
+  const [width, setWidth] = useState(DEFAULT_CHART_WIDTH);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width)
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return [ref, width] as const;
+}
+
+const READING_VALUES: ValueAccessor<ChartDataPoint>[] = [
+  (r) => r.temperature,
+  (r) => r.humidity,
+];
+
+/** Accessors for every temperature_<i> / humidity_<i> overlay column. */
+function overlayValues(sensors: string[]): ValueAccessor<OverlayPoint>[] {
+  return sensors.flatMap((_, i) =>
+    [`temperature_${i}`, `humidity_${i}`].map(
+      (column) => (p: OverlayPoint) => {
+        const v = p[column];
+        return typeof v === "number" ? v : undefined;
+      }
+    )
+  );
+}
+
+function pivotBySensor(
+  readings: ChartDataPoint[],
+  sensors: string[]
+): OverlayPoint[] {
+  const rows = new Map<number, OverlayPoint>();
+
+  for (const r of readings) {
+    const ms = new Date(r.timestamp).getTime();
+    const slot = Math.floor(ms / OVERLAY_SLOT_MS) * OVERLAY_SLOT_MS;
+    let row = rows.get(slot);
+    if (!row) {
+      row = { time: new Date(slot).toISOString() };
+      rows.set(slot, row);
+    }
+    const i = sensors.indexOf(r.sensor);
+    row[`temperature_${i}`] = r.temperature;
+    row[`humidity_${i}`] = r.humidity;
+  }
+
+  return [...rows.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, row]) => row);
+}
+
+/** Each sensor's gaps in chronologically sorted readings. */
+function gapsBySensor(
+  readings: ChartDataPoint[],
+  thresholdMs: number
+): Map<string, Gap[]> {
+  const times = new Map<string, number[]>();
+  for (const r of readings) {
+    const list = times.get(r.sensor);
+    const t = new Date(r.timestamp).getTime();
+    if (list) list.push(t);
+    else times.set(r.sensor, [t]);
+  }
+  return new Map(
+    [...times].map(([sensor, list]) => [sensor, findGaps(list, thresholdMs)])
+  );
+}
+
+/**
+ * Interpolate each sensor's missing overlay values between its points on
+ * either side, so its line runs through rows that belong to other sensors
+ * but still breaks at its own gaps.
+ */
+function bridgeOverlay(
+  rows: OverlayPoint[],
+  sensors: string[],
+  gaps: Map<string, Gap[]>
+): OverlayPoint[] {
+  const result = rows.map((row) => ({ ...row }));
+  const times = rows.map((row) => new Date(row.time).getTime());
+
+  sensors.forEach((sensor, i) => {
+    const sensorGaps = gaps.get(sensor) ?? [];
+    for (const column of [`temperature_${i}`, `humidity_${i}`]) {
+      let last = -1;
+      result.forEach((row, j) => {
+        const value = row[column];
+        if (typeof value !== "number") return;
+        const before = last;
+        last = j;
+        if (before === -1 || j - before < 2) return;
+
+        const [t0, t1] = [times[before], times[j]];
+        if (sensorGaps.some((g) => g.start >= t0 && g.start < t1)) return;
+
+        const v0 = result[before][column] as number;
+        for (let k = before + 1; k < j; k++) {
+          const share = (times[k] - t0) / (t1 - t0);
+          result[k][column] = +(v0 + (value - v0) * share).toFixed(1);
+        }
+      });
+    }
+  });
 
-  const step = Math.ceil(data.length / maxPoints);
-  return data.filter((_, i) => i % step === 0);
+  return result;
 }
 
-function formatTickTime(isoString: string, range: DateRange) {
+function formatTickTime(
+  isoString: string,
+  range: DateRange,
+  timeZone?: string
+) {
   const date = new Date(isoString);
   if (range === "24h") {
     return date.toLocaleTimeString("en-US", {
       hour: "numeric",
       minute: "2-digit",
+      timeZone,
     });
   }
   if (range === "7d") {
     return date.toLocaleDateString("en-US", {
       weekday: "short",
       hour: "numeric",
+      timeZone,
     });
   }
   return date.toLocaleDateString("en-US", {
     month: "short",
     day: "numeric",
+    timeZone,
   });
 }
 
@@ -77,10 +537,15 @@ function CustomTooltip({
   active,
   payload,
   label,
+  timeZone,
+  unit,
 }: {
   active?: boolean;
-  payload?: { value: number; color: string; name: string }[];
+  payload?: { value: number; color: string; name: string; unit?: string }[];
   label?: string;
+  timeZone?: string;
+  /** Unit for every entry; otherwise inferred from the series name. */
+  unit?: string;
 }) {
   if (!active || !payload || !label) return null;
 
@@ -90,6 +555,8 @@ function CustomTooltip({
     day: "numeric",
     hour: "numeric",
     minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
   });
 
   return (
@@ -104,7 +571,7 @@ function CustomTooltip({
           <span className="text-muted-foreground">{entry.name}:</span>
           <span className="font-semibold tabular-nums text-foreground">
             {entry.value}
-            {entry.name === "Temperature" ? "°C" : "%"}
+            {unit ?? entry.unit ?? (entry.name === "Temperature" ? "°C" : "%")}
           </span>
         </div>
       ))}
@@ -115,25 +582,449 @@ function CustomTooltip({
 // Muted axis color that works on both dark and light backgrounds
 const AXIS_COLOR = "#a1a1aa";
 
-export function WeatherCharts({ readings }: WeatherChartsProps) {
-  const [range, setRange] = useState<DateRange>("7d");
+export function WeatherCharts({
+  readings,
+  flagged,
+  sensors,
+  stationTimeZone,
+  gapThresholdMs,
+}: WeatherChartsProps) {
+  const searchParams = useSearchParams();
+  const [selection, setSelectionState] = useState(() =>
+    selectionFromParams(searchParams)
+  );
+  const [displayZone, setDisplayZone] = useState(stationTimeZone);
+  const [sensor, setSensor] = useState(
+    sensors.length > 1 ? ALL_SENSORS : (sensors[0] ?? ALL_SENSORS)
+  );
+  const [comparison, setComparisonState] = useState(() =>
+    comparisonFromParams(searchParams)
+  );
+  const [derivedSeries, setDerivedSeries] = useState<
+    (keyof DerivedMetrics)[]
+  >(["dewPoint"]);
+  const [zoom, setZoom] = useState<ZoomWindow | null>(null);
+  // Show readings the cleaning stage removed as glitches
+  const [showRaw, setShowRaw] = useState(false);
+  // Time labels under the pointer while drag-selecting a zoom window
+  const [dragStart, setDragStart] = useState<string | null>(null);
+  const [dragEnd, setDragEnd] = useState<string | null>(null);
+  const [chartsRef, chartsWidth] = useElementWidth<HTMLDivElement>();
+  const buckets = bucketsForWidth(chartsWidth);
   const axisColor = AXIS_COLOR;
+  const timeZone = displayZone === LOCAL_TIME_ZONE ? undefined : displayZone;
+  // Custom ranges are whole days in the zone the charts are shown in
+  const dayZone =
+    timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const range = zoom
+    ? tickRangeForDays((zoom.to - zoom.from) / (24 * 60 * 60 * 1000))
+    : tickRangeFor(selection);
+  const rangeLabel =
+    typeof selection === "string"
+      ? selection
+      : `${selection.from}_${selection.to}`;
+
+  const setSelection = (next: RangeSelection) => {
+    setSelectionState(next);
+    setZoom(null);
+    writeSelectionToURL(next);
+  };
+
+  const setComparison = (next: Comparison) => {
+    setComparisonState(next);
+    writeComparisonToURL(next);
+  };
+
+  const selectSensor = (next: string) => {
+    setSensor(next);
+    setZoom(null);
+  };
+
+  const today = toDateKey(new Date(), dayZone);
+
+  // The days currently shown, as the date inputs and prev/next see them
+  const shownDays: CustomDateRange | null =
+    typeof selection !== "string"
+      ? selection
+      : selection === "all"
+        ? null
+        : presetToCustomRange(selection, dayZone);
+
+  const setShownDays = (next: CustomDateRange) => {
+    if (DATE_KEY.test(next.from) && DATE_KEY.test(next.to)) {
+      setSelection(
+        next.from <= next.to ? next : { from: next.to, to: next.from }
+      );
+    }
+  };
+  // Comparing rooms: one line per sensor instead of one per metric
+  const overlay = sensor === ALL_SENSORS && sensors.length > 1;
+
+  const zoneOptions = useMemo(() => {
+    const zones = [stationTimeZone, "UTC"].filter(
+      (z, i, all) => all.indexOf(z) === i
+    );
+    return [
+      ...zones.map((z) => ({ label: z, value: z })),
+      { label: "Browser local", value: LOCAL_TIME_ZONE },
+    ];
+  }, [stationTimeZone]);
+
+  const bounds = useMemo(
+    () => selectionBounds(selection, dayZone),
+    [selection, dayZone]
+  );
+
+  // Ranges beyond the initial readings come from the tier suited to them
+  const rangeFetch = useFetchedReadings(
+    typeof selection === "string" && INITIAL_RANGES.includes(selection)
+      ? null
+      : readingsURL(bounds.from, bounds.to, "auto")
+  );
+  const fetchedRange = rangeFetch.data;
+  // Zooming into averaged data asks for a finer tier for the window
+  const fetchedZoom = useFetchedReadings(
+    zoom && fetchedRange && fetchedRange.resolution !== "raw"
+      ? readingsURL(zoom.from, zoom.to, "auto")
+      : null
+  ).data;
+
+  // Readings in range; until a fetch lands, whatever the page came with.
+  // A failed fetch shows nothing: the page's week isn't the range asked for.
+  const rangeFailed = rangeFetch.failed;
+  const rangeFlagged = useMemo(() => {
+    if (rangeFailed) return [];
+    return forSensor(
+      fetchedRange?.flagged ?? filterReadings(flagged, selection, dayZone),
+      sensor
+    );
+  }, [rangeFailed, fetchedRange, flagged, selection, dayZone, sensor]);
+
+  const rangeData = useMemo(() => {
+    if (rangeFailed) return [];
+    const cleaned = forSensor(
+      fetchedRange?.readings ?? filterReadings(readings, selection, dayZone),
+      sensor
+    );
+    return showRaw ? withFlagged(cleaned, rangeFlagged) : cleaned;
+  }, [
+    rangeFailed,
+    fetchedRange,
+    readings,
+    selection,
+    dayZone,
+    sensor,
+    showRaw,
+    rangeFlagged,
+  ]);
+
+  // One sensor over a bounded range can be compared with another period
+  const offset = overlay
+    ? null
+    : comparisonOffset(comparison, selection, bounds, dayZone);
+  const comparedPeriod =
+    offset !== null && bounds.from
+      ? {
+          from: bounds.from.getTime() - offset,
+          to: bounds.to.getTime() - offset,
+        }
+      : null;
+  const fetchedComparison = useFetchedReadings(
+    comparedPeriod
+      ? readingsURL(
+          comparedPeriod.from,
+          comparedPeriod.to,
+          "auto",
+          sensor === ALL_SENSORS ? undefined : sensor
+        )
+      : null
+  ).data;
+  const comparisonData = fetchedComparison?.readings ?? null;
+  const comparisonLabel =
+    comparedPeriod &&
+    formatPeriod(comparedPeriod.from, comparedPeriod.to, timeZone);
+  // Match each point to a compared sample no further off than its spacing
+  const comparisonTolerance =
+    fetchedComparison && fetchedComparison.resolution !== "raw"
+      ? TIER_MS[fetchedComparison.resolution as Tier]
+      : OVERLAY_SLOT_MS;
+
+  const periodDelta = useMemo(
+    () => comparisonData && comparePeriods(rangeData, comparisonData),
+    [rangeData, comparisonData]
+  );
+
+  // Zooming re-downsamples, so narrowing the window reveals more detail
+  const zoomedFlagged = useMemo(() => {
+    if (!zoom) return rangeFlagged;
+    if (fetchedZoom) return forSensor(fetchedZoom.flagged, sensor);
+    return rangeFlagged.filter((r) => {
+      const t = new Date(r.timestamp).getTime();
+      return t >= zoom.from && t <= zoom.to;
+    });
+  }, [rangeFlagged, fetchedZoom, zoom, sensor]);
+
+  const zoomedData = useMemo(() => {
+    if (!zoom) return rangeData;
+    if (fetchedZoom) {
+      const cleaned = forSensor(fetchedZoom.readings, sensor);
+      return showRaw ? withFlagged(cleaned, zoomedFlagged) : cleaned;
+    }
+    return rangeData.filter((r) => {
+      const t = new Date(r.timestamp).getTime();
+      return t >= zoom.from && t <= zoom.to;
+    });
+  }, [rangeData, fetchedZoom, zoom, sensor, showRaw, zoomedFlagged]);
+
+  // Averaged tiers are spaced a bucket apart; only missing buckets are gaps
+  const shownResolution =
+    (zoom ? (fetchedZoom ?? fetchedRange) : fetchedRange)?.resolution ??
+    "raw";
+  const gapThreshold = Math.max(
+    gapThresholdMs,
+    shownResolution === "raw" ? 0 : TIER_MS[shownResolution as Tier]
+  );
+
+  const chartData: OverlayPoint[] = useMemo(() => {
+    if (overlay) {
+      const gaps = gapsBySensor(zoomedData, gapThreshold);
+      const rows = downsampleMinMax(
+        pivotBySensor(zoomedData, sensors),
+        buckets,
+        overlayValues(sensors)
+      );
+      const allGaps = [...gaps.values()].flat().sort((a, b) => a.end - b.end);
+      return bridgeOverlay(insertGapBreaks(rows, allGaps), sensors, gaps);
+    }
+    const gaps = findGaps(
+      zoomedData.map((r) => new Date(r.timestamp).getTime()),
+      gapThreshold
+    );
+    const rows = downsampleMinMax(zoomedData, buckets, READING_VALUES);
+    const previous =
+      comparisonData && offset !== null
+        ? alignByOffset(
+            rows.map((r) => r.timestamp),
+            comparisonData,
+            offset,
+            comparisonTolerance
+          )
+        : [];
+    const points: OverlayPoint[] = rows.map((r, i) => ({
+      ...r,
+      ...deriveMetrics(r),
+      time: r.timestamp,
+      ...(previous[i] && {
+        previousTemperature: previous[i].temperature,
+        previousHumidity: previous[i].humidity,
+      }),
+    }));
+
+    // Mark each glitch on the point nearest to it
+    const rowIndex = new Map(rows.map((r, i) => [r, i]));
+    alignByOffset(
+      zoomedFlagged.map((f) => f.timestamp),
+      rows,
+      0,
+      Infinity
+    ).forEach((row, j) => {
+      if (!row) return;
+      const point = points[rowIndex.get(row)!];
+      const glitch = zoomedFlagged[j];
+      if (glitch.metrics.includes("temperature")) {
+        point.flaggedTemperature = glitch.temperature;
+      }
+      if (glitch.metrics.includes("humidity")) {
+        point.flaggedHumidity = glitch.humidity;
+      }
+    });
 
-  const filteredData = useMemo(() => {
-    const filtered = filterReadings(readings, range);
-    return downsampleData(filtered);
-  }, [readings, range]);
+    return insertGapBreaks(points, gaps);
+  }, [
+    zoomedData,
+    zoomedFlagged,
+    gapThreshold,
+    overlay,
+    sensors,
+    buckets,
+    comparisonData,
+    offset,
+    comparisonTolerance,
+  ]);
 
-  const chartData = useMemo(
+  // Whole selected range for the timeline scrubber
+  const overviewData: OverlayPoint[] = useMemo(
     () =>
-      filteredData.map((r) => ({
-        ...r,
-        time: r.timestamp,
-      })),
-    [filteredData]
+      overlay
+        ? downsampleMinMax(
+            pivotBySensor(rangeData, sensors),
+            buckets,
+            overlayValues(sensors)
+          )
+        : downsampleMinMax(rangeData, buckets, READING_VALUES).map((r) => ({
+            ...r,
+            time: r.timestamp,
+          })),
+    [rangeData, overlay, sensors, buckets]
+  );
+
+  const brushIndex = useMemo(() => {
+    const last = Math.max(overviewData.length - 1, 0);
+    if (!zoom) return { startIndex: 0, endIndex: last };
+    const times = overviewData.map((p) => new Date(p.time).getTime());
+    const start = Math.max(times.findIndex((t) => t >= zoom.from), 0);
+    const end = times.findLastIndex((t) => t <= zoom.to);
+    return { startIndex: start, endIndex: Math.max(end, start) };
+  }, [overviewData, zoom]);
+
+  const onBrushChange = ({
+    startIndex,
+    endIndex,
+  }: {
+    startIndex?: number;
+    endIndex?: number;
+  }) => {
+    const last = overviewData.length - 1;
+    if (startIndex === undefined || endIndex === undefined) return;
+    if (startIndex === 0 && endIndex === last) {
+      setZoom(null);
+      return;
+    }
+    setZoom({
+      from: new Date(overviewData[startIndex].time).getTime(),
+      to: new Date(overviewData[endIndex].time).getTime(),
+    });
+  };
+
+  const finishDrag = () => {
+    if (dragStart && dragEnd && dragStart !== dragEnd) {
+      const [a, b] = [dragStart, dragEnd].map((t) => new Date(t).getTime());
+      setZoom({ from: Math.min(a, b), to: Math.max(a, b) });
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  // Shared by every chart, so a zoom made on one applies to all
+  const zoomProps = {
+    syncId: "weather-charts",
+    className: "select-none",
+    onMouseDown: (state: MouseHandlerDataParam) => {
+      if (state.activeLabel !== undefined) {
+        setDragStart(String(state.activeLabel));
+      }
+    },
+    onMouseMove: (state: MouseHandlerDataParam) => {
+      if (dragStart && state.activeLabel !== undefined) {
+        setDragEnd(String(state.activeLabel));
+      }
+    },
+    onMouseUp: finishDrag,
+    onMouseLeave: finishDrag,
+  };
+
+  const selectionArea = (yAxisId?: string) =>
+    dragStart &&
+    dragEnd && (
+      <ReferenceArea
+        yAxisId={yAxisId}
+        x1={dragStart}
+        x2={dragEnd}
+        fill={AXIS_COLOR}
+        fillOpacity={0.2}
+        strokeOpacity={0}
+      />
+    );
+
+  const toggleDerived = (key: keyof DerivedMetrics) =>
+    setDerivedSeries((current) =>
+      current.includes(key)
+        ? current.filter((k) => k !== key)
+        : [...current, key]
+    );
+
+  /** Lines for one metric: per sensor when overlaid, else a single line. */
+  const metricLines = (
+    metric: "temperature" | "humidity",
+    color: string,
+    yAxisId?: string
+  ) =>
+    overlay ? (
+      sensors.map((id, i) => (
+        <Line
+          key={id}
+          yAxisId={yAxisId}
+          type="monotone"
+          dataKey={`${metric}_${i}`}
+          name={id}
+          stroke={SENSOR_COLORS[i % SENSOR_COLORS.length]}
+          strokeWidth={2}
+          dot={false}
+          activeDot={{ r: 4, strokeWidth: 0 }}
+        />
+      ))
+    ) : (
+      [
+        <Line
+          key={metric}
+          yAxisId={yAxisId}
+          type="monotone"
+          dataKey={metric}
+          name={metric === "temperature" ? "Temperature" : "Humidity"}
+          stroke={color}
+          strokeWidth={2}
+          dot={false}
+          activeDot={{ r: 4, strokeWidth: 0 }}
+        />,
+        comparisonLabel && (
+          <Line
+            key="previous"
+            yAxisId={yAxisId}
+            type="monotone"
+            dataKey={
+              metric === "temperature"
+                ? "previousTemperature"
+                : "previousHumidity"
+            }
+            name={comparisonLabel}
+            stroke={color}
+            strokeOpacity={0.5}
+            strokeWidth={1.5}
+            strokeDasharray="5 4"
+            dot={false}
+            activeDot={{ r: 3, strokeWidth: 0 }}
+            connectNulls
+          />
+        ),
+        <Line
+          key="flagged"
+          yAxisId={yAxisId}
+          dataKey={
+            metric === "temperature" ? "flaggedTemperature" : "flaggedHumidity"
+          }
+          name="Glitch"
+          stroke="none"
+          dot={{ r: 3, fill: "#ef4444", strokeWidth: 0 }}
+          activeDot={false}
+          legendType="none"
+          isAnimationActive={false}
+        />,
+      ]
+    );
+
+  const chartLegend = (overlay || comparisonLabel) && (
+    <Legend
+      verticalAlign="top"
+      height={36}
+      iconType="circle"
+      iconSize={8}
+      formatter={(value) => (
+        <span className="text-xs text-muted-foreground">{value}</span>
+      )}
+    />
   );
 
-  if (readings.length === 0) {
+  if (sensors.length === 0) {
     return (
       <Card className="border-border/50">
         <CardContent className="flex items-center justify-center py-16">
@@ -146,26 +1037,218 @@ export function WeatherCharts({ readings }: WeatherChartsProps) {
   }
 
   return (
-    <div className="space-y-6">
+    <div ref={chartsRef} className="space-y-6">
       {/* Date range picker */}
-      <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center gap-2">
         <span className="text-sm text-muted-foreground mr-1">Range:</span>
         {DATE_RANGES.map((r) => (
           <Button
             key={r.value}
-            variant={range === r.value ? "default" : "outline"}
+            variant={selection === r.value ? "default" : "outline"}
             size="sm"
-            onClick={() => setRange(r.value)}
+            onClick={() => setSelection(r.value)}
             className="h-8 px-3 text-xs"
           >
             {r.label}
           </Button>
         ))}
-        <span className="ml-auto text-xs text-muted-foreground tabular-nums">
-          {filteredData.length.toLocaleString()} points
-        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!shownDays}
+            onClick={() =>
+              shownDays && setSelection(shiftCustomRange(shownDays, -1))
+            }
+            aria-label="Previous period"
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+          </Button>
+          <input
+            type="date"
+            value={shownDays?.from ?? ""}
+            max={shownDays?.to}
+            onChange={(e) =>
+              setShownDays({
+                from: e.target.value,
+                to: shownDays?.to ?? e.target.value,
+              })
+            }
+            className="h-8 rounded-md border border-input bg-transparent px-2 text-xs tabular-nums"
+            aria-label="From date"
+          />
+          <span className="text-xs text-muted-foreground">–</span>
+          <input
+            type="date"
+            value={shownDays?.to ?? ""}
+            min={shownDays?.from}
+            onChange={(e) =>
+              setShownDays({
+                from: shownDays?.from ?? e.target.value,
+                to: e.target.value,
+              })
+            }
+            className="h-8 rounded-md border border-input bg-transparent px-2 text-xs tabular-nums"
+            aria-label="To date"
+          />
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={!shownDays || shownDays.to >= today}
+            onClick={() =>
+              shownDays && setSelection(shiftCustomRange(shownDays, 1))
+            }
+            aria-label="Next period"
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button
+          variant={showRaw ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setShowRaw((raw) => !raw)}
+          aria-pressed={showRaw}
+          title="Include readings removed as sensor glitches"
+          className="h-8 px-3 text-xs"
+        >
+          Raw data
+        </Button>
+        {zoom && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setZoom(null)}
+            className="h-8 px-3 text-xs"
+          >
+            Reset zoom
+          </Button>
+        )}
+        {!overlay && shownDays && (
+          <div className="flex items-center gap-1">
+            <Select
+              value={typeof comparison === "string" ? comparison : "date"}
+              onValueChange={(v) =>
+                setComparison(
+                  v === "date"
+                    ? { from: shiftCustomRange(shownDays, -1).from }
+                    : (v as "off" | "previous")
+                )
+              }
+            >
+              <SelectTrigger
+                size="sm"
+                className="h-8 text-xs"
+                aria-label="Compare with"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off" className="text-xs">
+                  No comparison
+                </SelectItem>
+                <SelectItem value="previous" className="text-xs">
+                  vs previous period
+                </SelectItem>
+                <SelectItem value="date" className="text-xs">
+                  vs period starting…
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {typeof comparison !== "string" && (
+              <input
+                type="date"
+                value={comparison.from}
+                max={today}
+                onChange={(e) =>
+                  DATE_KEY.test(e.target.value) &&
+                  setComparison({ from: e.target.value })
+                }
+                className="h-8 rounded-md border border-input bg-transparent px-2 text-xs tabular-nums"
+                aria-label="Compared period start"
+              />
+            )}
+          </div>
+        )}
+        {rangeFailed ? (
+          <span className="ml-auto inline-flex items-center gap-1.5 text-xs text-red-500">
+            Couldn&rsquo;t load readings for this range
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={rangeFetch.retry}
+              className="h-7 px-2 text-xs"
+            >
+              Retry
+            </Button>
+          </span>
+        ) : (
+          <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+            {chartData.length.toLocaleString()} points
+          </span>
+        )}
+        {sensors.length > 1 && (
+          <Select value={sensor} onValueChange={selectSensor}>
+            <SelectTrigger
+              size="sm"
+              className="h-8 text-xs"
+              aria-label="Sensor"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SENSORS} className="text-xs">
+                All sensors
+              </SelectItem>
+              {sensors.map((id) => (
+                <SelectItem key={id} value={id} className="text-xs">
+                  {id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={displayZone} onValueChange={setDisplayZone}>
+          <SelectTrigger
+            size="sm"
+            className="h-8 text-xs"
+            aria-label="Display time zone"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {zoneOptions.map((z) => (
+              <SelectItem key={z.value} value={z.value} className="text-xs">
+                {z.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ExportMenu
+          source={readingsURL(
+            bounds.from,
+            bounds.to,
+            "raw",
+            sensor === ALL_SENSORS ? undefined : sensor
+          )}
+          disabled={rangeData.length === 0}
+          rangeLabel={
+            sensor === ALL_SENSORS ? rangeLabel : `${sensor}-${rangeLabel}`
+          }
+        />
       </div>
 
+      {periodDelta && (
+        <p className="text-xs text-muted-foreground tabular-nums">
+          Compared with {comparisonLabel}: average{" "}
+          {formatDelta(periodDelta.delta.avgTemperature, "°C")} /{" "}
+          {formatDelta(periodDelta.delta.avgHumidity, "%")}, high{" "}
+          {formatDelta(periodDelta.delta.maxTemperature, "°C")} /{" "}
+          {formatDelta(periodDelta.delta.maxHumidity, "%")}, low{" "}
+          {formatDelta(periodDelta.delta.minTemperature, "°C")} /{" "}
+          {formatDelta(periodDelta.delta.minHumidity, "%")}
+        </p>
+      )}
+
       {/* Temperature chart */}
       <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
         <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
@@ -176,42 +1259,38 @@ export function WeatherCharts({ readings }: WeatherChartsProps) {
         </CardHeader>
         <CardContent className="px-2 sm:px-4 pb-4">
           <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
-                <CartesianGrid
-                  strokeDasharray="3 3"
-                  stroke={axisColor}
-                  opacity={0.4}
-                />
-                <XAxis
-                  dataKey="time"
-                  tickFormatter={(v) => formatTickTime(v, range)}
-                  stroke={axisColor}
-                  fontSize={11}
-                  tickLine={false}
-                  axisLine={false}
-                  minTickGap={40}
-                />
-                <YAxis
-                  stroke={axisColor}
-                  fontSize={11}
-                  tickLine={false}
-                  axisLine={false}
-                  tickFormatter={(v) => `${v}°`}
-                  domain={["auto", "auto"]}
-                  width={40}
-                />
-                <Tooltip content={<CustomTooltip />} />
-                <Line
-                  type="monotone"
-                  dataKey="temperature"
-                  name="Temperature"
-                  stroke="#f97316"
-                  strokeWidth={2}
-                  dot={false}
-                  activeDot={{ r: 4, strokeWidth: 0 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            <LineChart data={chartData} {...zoomProps}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={axisColor}
+                opacity={0.4}
+              />
+              <XAxis
+                dataKey="time"
+                tickFormatter={(v) => formatTickTime(v, range, timeZone)}
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+              />
+              <YAxis
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => `${v}°`}
+                domain={["auto", "auto"]}
+                width={40}
+              />
+              <Tooltip
+                content={<CustomTooltip timeZone={timeZone} unit="°C" />}
+              />
+              {chartLegend}
+              {metricLines("temperature", "#f97316")}
+              {selectionArea()}
+            </LineChart>
+          </ResponsiveContainer>
         </CardContent>
       </Card>
 
@@ -225,55 +1304,70 @@ export function WeatherCharts({ readings }: WeatherChartsProps) {
         </CardHeader>
         <CardContent className="px-2 sm:px-4 pb-4">
           <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
-                <CartesianGrid
-                  strokeDasharray="3 3"
-                  stroke={axisColor}
-                  opacity={0.4}
-                />
-                <XAxis
-                  dataKey="time"
-                  tickFormatter={(v) => formatTickTime(v, range)}
-                  stroke={axisColor}
-                  fontSize={11}
-                  tickLine={false}
-                  axisLine={false}
-                  minTickGap={40}
-                />
-                <YAxis
-                  stroke={axisColor}
-                  fontSize={11}
-                  tickLine={false}
-                  axisLine={false}
-                  tickFormatter={(v) => `${v}%`}
-                  domain={["auto", "auto"]}
-                  width={40}
-                />
-                <Tooltip content={<CustomTooltip />} />
-                <Line
-                  type="monotone"
-                  dataKey="humidity"
-                  name="Humidity"
-                  stroke="#3b82f6"
-                  strokeWidth={2}
-                  dot={false}
-                  activeDot={{ r: 4, strokeWidth: 0 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            <LineChart data={chartData} {...zoomProps}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke={axisColor}
+                opacity={0.4}
+              />
+              <XAxis
+                dataKey="time"
+                tickFormatter={(v) => formatTickTime(v, range, timeZone)}
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+              />
+              <YAxis
+                stroke={axisColor}
+                fontSize={11}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => `${v}%`}
+                domain={["auto", "auto"]}
+                width={40}
+              />
+              <Tooltip
+                content={<CustomTooltip timeZone={timeZone} unit="%" />}
+              />
+              {chartLegend}
+              {metricLines("humidity", "#3b82f6")}
+              {selectionArea()}
+            </LineChart>
+          </ResponsiveContainer>
         </CardContent>
       </Card>
 
-      {/* Combined chart */}
-      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
-        <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5">
-          <CardTitle className="text-base font-semibold">
-            Combined View
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="px-2 sm:px-4 pb-4">
-          <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
+      {/* Combined chart (one sensor at a time; overlays would double up) */}
+      {!overlay && (
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader className="pb-2 px-4 sm:px-6 pt-4 sm:pt-5 flex flex-row flex-wrap items-center gap-2 space-y-0">
+            <CardTitle className="text-base font-semibold mr-auto">
+              Combined View
+            </CardTitle>
+            {DERIVED_SERIES.map((series) => (
+              <Button
+                key={series.key}
+                variant={
+                  derivedSeries.includes(series.key) ? "secondary" : "ghost"
+                }
+                size="sm"
+                onClick={() => toggleDerived(series.key)}
+                aria-pressed={derivedSeries.includes(series.key)}
+                className="h-7 px-2 text-xs"
+              >
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ backgroundColor: series.color }}
+                />
+                {series.label}
+              </Button>
+            ))}
+          </CardHeader>
+          <CardContent className="px-2 sm:px-4 pb-4">
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData} {...zoomProps}>
                 <CartesianGrid
                   strokeDasharray="3 3"
                   stroke={axisColor}
@@ -281,7 +1375,7 @@ export function WeatherCharts({ readings }: WeatherChartsProps) {
                 />
                 <XAxis
                   dataKey="time"
-                  tickFormatter={(v) => formatTickTime(v, range)}
+                  tickFormatter={(v) => formatTickTime(v, range, timeZone)}
                   stroke={axisColor}
                   fontSize={11}
                   tickLine={false}
@@ -309,7 +1403,9 @@ export function WeatherCharts({ readings }: WeatherChartsProps) {
                   domain={["auto", "auto"]}
                   width={40}
                 />
-                <Tooltip content={<CustomTooltip />} />
+                <YAxis yAxisId="abs" hide domain={["auto", "auto"]} />
+                <YAxis yAxisId="vpd" hide domain={["auto", "auto"]} />
+                <Tooltip content={<CustomTooltip timeZone={timeZone} />} />
                 <Legend
                   verticalAlign="top"
                   height={36}
@@ -341,8 +1437,61 @@ export function WeatherCharts({ readings }: WeatherChartsProps) {
                   dot={false}
                   activeDot={{ r: 4, strokeWidth: 0 }}
                 />
+                {DERIVED_SERIES.filter((series) =>
+                  derivedSeries.includes(series.key)
+                ).map((series) => (
+                  <Line
+                    key={series.key}
+                    yAxisId={series.axis}
+                    type="monotone"
+                    dataKey={series.key}
+                    name={series.label}
+                    unit={series.unit}
+                    stroke={series.color}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 3"
+                    dot={false}
+                    activeDot={{ r: 3, strokeWidth: 0 }}
+                  />
+                ))}
+                {selectionArea("temp")}
               </LineChart>
             </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Timeline scrubber over the whole selected range */}
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardContent className="px-2 sm:px-4 py-3">
+          <ResponsiveContainer width="100%" height={70}>
+            <LineChart data={overviewData}>
+              <XAxis dataKey="time" hide />
+              <YAxis hide domain={["auto", "auto"]} />
+              <Line
+                type="monotone"
+                dataKey={overlay ? "temperature_0" : "temperature"}
+                stroke={AXIS_COLOR}
+                strokeWidth={1}
+                dot={false}
+                isAnimationActive={false}
+                connectNulls
+              />
+              <Brush
+                dataKey="time"
+                height={24}
+                stroke={AXIS_COLOR}
+                fill="transparent"
+                travellerWidth={8}
+                startIndex={brushIndex.startIndex}
+                endIndex={brushIndex.endIndex}
+                onChange={onBrushChange}
+                tickFormatter={(v) =>
+                  formatTickTime(v, tickRangeFor(selection), timeZone)
+                }
+              />
+            </LineChart>
+          </ResponsiveContainer>
         </CardContent>
       </Card>
     </div>
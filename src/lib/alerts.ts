@@ -0,0 +1,360 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { groupBySensor } from "./csv-parser";
+import { freshness } from "./gaps";
+import { dispatchAlerts, getNotifiers, type Notifier } from "./notifiers";
+import { getStorePath, writeJSONAtomic } from "./sync-store";
+import { WeatherReading } from "./types";
+
+export type AlertMetric = "temperature" | "humidity";
+
+/**
+ * "above"/"below" compare the latest value against the threshold;
+ * "rate" compares the absolute change over the trailing hour.
+ */
+export type AlertCondition = "above" | "below" | "rate";
+
+export interface AlertRule {
+  id: string;
+  name?: string;
+  metric: AlertMetric;
+  condition: AlertCondition;
+  threshold: number;
+  /** How long the condition must hold before the alert fires. */
+  durationMinutes?: number;
+  /** Only check this sensor; by default every sensor is checked. */
+  sensor?: string;
+}
+
+/** Outcome of checking one rule against the current readings. */
+export interface RuleEvaluation {
+  rule: AlertRule;
+  /** Sensor checked, when readings come from more than one. */
+  sensor?: string;
+  firing: boolean;
+  /** The value the rule compared (latest reading, or hourly change). */
+  value: number | null;
+  /** When the condition started holding continuously, if it does. */
+  since: Date | null;
+  /** The sensor has stopped reporting, so the rule can't be checked. */
+  stale?: boolean;
+}
+
+/** A firing alert, in cache-safe form for the dashboard banner. */
+export interface ActiveAlert {
+  ruleId: string;
+  sensor?: string;
+  message: string;
+  value: number;
+  since: string;
+}
+
+interface RuleState {
+  firing: boolean;
+  since: string | null;
+  lastValue: number | null;
+  changedAt: string;
+}
+
+export interface AlertState {
+  rules: Record<string, RuleState>;
+}
+
+/** A change in a rule's firing state that should be announced. */
+export interface AlertTransition {
+  kind: "triggered" | "resolved";
+  rule: AlertRule;
+  sensor?: string;
+  value: number | null;
+  since: Date | null;
+  message: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const UNITS: Record<AlertMetric, string> = {
+  temperature: "°C",
+  humidity: "%",
+};
+
+/**
+ * Parse the ALERT_RULES environment variable (a JSON array of rules).
+ * Invalid rules are reported and skipped so one typo doesn't disable
+ * every alert.
+ */
+export function getAlertRules(): AlertRule[] {
+  const raw = process.env.ALERT_RULES;
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error("ALERT_RULES is not valid JSON; no alerts will be checked");
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    console.error("ALERT_RULES must be a JSON array of rules");
+    return [];
+  }
+
+  return parsed.filter((rule, i): rule is AlertRule => {
+    const valid =
+      typeof rule?.id === "string" &&
+      (rule.metric === "temperature" || rule.metric === "humidity") &&
+      ["above", "below", "rate"].includes(rule.condition) &&
+      typeof rule.threshold === "number" &&
+      (rule.durationMinutes === undefined ||
+        typeof rule.durationMinutes === "number") &&
+      (rule.sensor === undefined || typeof rule.sensor === "string");
+    if (!valid) console.error(`Skipping invalid alert rule #${i}:`, rule);
+    return valid;
+  });
+}
+
+/** Human-readable description of a rule, e.g. "humidity > 65% for 30 min". */
+export function describeRule(rule: AlertRule): string {
+  if (rule.name) return rule.name;
+
+  const unit = UNITS[rule.metric];
+  const base =
+    rule.condition === "rate"
+      ? `${rule.metric} changing > ${rule.threshold}${unit}/hour`
+      : `${rule.metric} ${rule.condition === "above" ? ">" : "<"} ` +
+        `${rule.threshold}${unit}`;
+
+  return rule.durationMinutes
+    ? `${base} for ${rule.durationMinutes} min`
+    : base;
+}
+
+/**
+ * Absolute change in `metric` per hour, measured from the latest reading
+ * at least an hour before readings[index]. Across gaps longer than an hour
+ * the change is averaged over the gap. Returns null without an hour of
+ * history.
+ */
+function hourlyChange(
+  readings: WeatherReading[],
+  index: number,
+  metric: AlertMetric
+): number | null {
+  const now = readings[index].timestamp.getTime();
+  let j = index;
+  while (j >= 0 && readings[j].timestamp.getTime() > now - HOUR_MS) j--;
+  if (j < 0) return null;
+
+  const hours = (now - readings[j].timestamp.getTime()) / HOUR_MS;
+  return Math.abs(readings[index][metric] - readings[j][metric]) / hours;
+}
+
+function valueAt(
+  rule: AlertRule,
+  readings: WeatherReading[],
+  index: number
+): number | null {
+  return rule.condition === "rate"
+    ? hourlyChange(readings, index, rule.metric)
+    : readings[index][rule.metric];
+}
+
+function holds(rule: AlertRule, value: number | null): boolean {
+  if (value === null) return false;
+  return rule.condition === "below"
+    ? value < rule.threshold
+    : value > rule.threshold;
+}
+
+/**
+ * Check a rule against chronologically sorted readings. The rule fires when
+ * its condition holds for the latest reading and has held continuously for
+ * at least durationMinutes. Once the latest reading is stale (see
+ * freshness) the rule stops firing: a sensor that went quiet says nothing
+ * about the room now.
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  readings: WeatherReading[],
+  now: Date = new Date()
+): RuleEvaluation {
+  if (readings.length === 0) {
+    return { rule, firing: false, value: null, since: null };
+  }
+
+  const last = readings.length - 1;
+  if (freshness(readings[last].timestamp, now) === "stale") {
+    return { rule, firing: false, value: null, since: null, stale: true };
+  }
+
+  const value = valueAt(rule, readings, last);
+  if (!holds(rule, value)) {
+    return { rule, firing: false, value, since: null };
+  }
+
+  // Walk back to the start of the current run of matching readings
+  let start = last;
+  while (start > 0 && holds(rule, valueAt(rule, readings, start - 1))) {
+    start--;
+  }
+
+  const since = readings[start].timestamp;
+  const heldMs = readings[last].timestamp.getTime() - since.getTime();
+  const firing = heldMs >= (rule.durationMinutes ?? 0) * 60 * 1000;
+
+  return { rule, firing, value, since };
+}
+
+/**
+ * Evaluate every rule against the readings. With more than one sensor,
+ * each rule is checked per sensor (or only against rule.sensor, if set),
+ * so one room crossing a threshold isn't masked by another.
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  readings: WeatherReading[],
+  now: Date = new Date()
+): RuleEvaluation[] {
+  const groups = groupBySensor(readings);
+
+  return rules.flatMap((rule) => {
+    if (rule.sensor) {
+      const group = groups.get(rule.sensor) ?? [];
+      return [{ ...evaluateRule(rule, group, now), sensor: rule.sensor }];
+    }
+    if (groups.size <= 1) return [evaluateRule(rule, readings, now)];
+    return [...groups].map(([sensor, group]) => ({
+      ...evaluateRule(rule, group, now),
+      sensor,
+    }));
+  });
+}
+
+/** Key an evaluation's state is persisted under. */
+function stateKey({ rule, sensor }: RuleEvaluation): string {
+  return sensor ? `${rule.id}:${sensor}` : rule.id;
+}
+
+function formatMessage(evaluation: RuleEvaluation): string {
+  const { rule, sensor, value, stale } = evaluation;
+  const unit = UNITS[rule.metric];
+  const shown = stale
+    ? " (no recent readings)"
+    : value === null
+      ? ""
+      : rule.condition === "rate"
+        ? ` (changing ${value.toFixed(1)}${unit}/hour)`
+        : ` (now ${value}${unit})`;
+  const where = sensor ? `${sensor}: ` : "";
+  return `${where}${describeRule(rule)}${shown}`;
+}
+
+/**
+ * Compare fresh evaluations with the persisted state, returning the new
+ * state and the triggered/resolved transitions to notify about.
+ */
+export function applyEvaluations(
+  state: AlertState,
+  evaluations: RuleEvaluation[],
+  now: Date = new Date()
+): { state: AlertState; transitions: AlertTransition[] } {
+  const next: AlertState = { rules: {} };
+  const transitions: AlertTransition[] = [];
+
+  for (const evaluation of evaluations) {
+    const { rule, sensor, firing, value, since } = evaluation;
+    const key = stateKey(evaluation);
+    const previous = state.rules[key];
+    const wasFiring = previous?.firing ?? false;
+
+    next.rules[key] = {
+      firing,
+      since: firing ? (since?.toISOString() ?? null) : null,
+      lastValue: value,
+      changedAt:
+        firing !== wasFiring || !previous
+          ? now.toISOString()
+          : previous.changedAt,
+    };
+
+    if (firing !== wasFiring) {
+      transitions.push({
+        kind: firing ? "triggered" : "resolved",
+        rule,
+        sensor,
+        value,
+        since,
+        message: formatMessage(evaluation),
+      });
+    }
+  }
+
+  return { state: next, transitions };
+}
+
+/** Firing alerts from the evaluations, ready for the dashboard banner. */
+export function toActiveAlerts(evaluations: RuleEvaluation[]): ActiveAlert[] {
+  return evaluations
+    .filter((e) => e.firing && e.value !== null && e.since)
+    .map((e) => ({
+      ruleId: e.rule.id,
+      sensor: e.sensor,
+      message: formatMessage(e),
+      value: e.value!,
+      since: e.since!.toISOString(),
+    }));
+}
+
+/** Alert state lives next to the sync store unless ALERT_STATE_PATH is set. */
+export function getAlertStatePath(): string {
+  return (
+    process.env.ALERT_STATE_PATH ||
+    path.join(path.dirname(getStorePath()), "alert-state.json")
+  );
+}
+
+export async function loadAlertState(statePath: string): Promise<AlertState> {
+  try {
+    return JSON.parse(await readFile(statePath, "utf8")) as AlertState;
+  } catch {
+    return { rules: {} };
+  }
+}
+
+export async function saveAlertState(
+  statePath: string,
+  state: AlertState
+): Promise<void> {
+  await writeJSONAtomic(statePath, state);
+}
+
+/**
+ * Evaluate every configured rule against the merged readings, notify about
+ * alerts that started or stopped firing since the last check, persist the
+ * new state and return the alerts currently firing.
+ */
+export async function checkAlerts(
+  readings: WeatherReading[],
+  rules: AlertRule[] = getAlertRules(),
+  notifiers: Notifier[] = getNotifiers(),
+  statePath: string = getAlertStatePath()
+): Promise<ActiveAlert[]> {
+  if (rules.length === 0) return [];
+
+  const evaluations = evaluateRules(rules, readings);
+  const { state, transitions } = applyEvaluations(
+    await loadAlertState(statePath),
+    evaluations
+  );
+
+  await dispatchAlerts(transitions, notifiers);
+
+  try {
+    await saveAlertState(statePath, state);
+  } catch (error) {
+    // Without saved state the next check may repeat these notifications
+    console.error("Failed to save alert state:", error);
+  }
+
+  return toActiveAlerts(evaluations);
+}
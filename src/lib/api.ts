@@ -0,0 +1,255 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import type { DataError, DataErrorKind } from "./errors";
+
+/**
+ * Thrown by the query-param parsers below when a request is malformed.
+ * Route handlers turn it into a 400 response via errorResponse().
+ */
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+/**
+ * Thrown when a request lacks the secret a route is protected by.
+ * errorResponse() turns it into a 401 response.
+ */
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * Thrown when the data source failed and there is nothing to serve in
+ * its place. errorResponse() turns it into a 503 response naming the kind
+ * of failure.
+ */
+export class UnavailableError extends Error {
+  constructor(readonly kind: DataErrorKind) {
+    super("Weather data is unavailable");
+    this.name = "UnavailableError";
+  }
+}
+
+/**
+ * Require `provided` to equal `secret`. When `secret` isn't configured the
+ * route is closed to everyone.
+ */
+export function assertSecret(
+  provided: string | null | undefined,
+  secret: string | undefined,
+  message = "Missing or invalid secret"
+) {
+  // Compare digests so neither the length nor the content leaks via timing
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (
+    !secret ||
+    !provided ||
+    !timingSafeEqual(digest(provided), digest(secret))
+  ) {
+    throw new UnauthorizedError(message);
+  }
+}
+
+/**
+ * Require an "Authorization: Bearer <secret>" header.
+ */
+export function assertBearerToken(
+  request: Request,
+  secret: string | undefined
+) {
+  const header = request.headers.get("authorization") ?? "";
+  const token = /^Bearer\s+(\S+)$/i.exec(header.trim())?.[1];
+  assertSecret(token, secret, "Missing or invalid bearer token");
+}
+
+/**
+ * Read an optional ISO-8601 date/time query parameter.
+ */
+export function parseDateParam(
+  params: URLSearchParams,
+  name: string
+): Date | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+
+  const date = new Date(raw);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(
+      `Invalid "${name}" parameter: expected an ISO-8601 date, got "${raw}"`
+    );
+  }
+  return date;
+}
+
+/**
+ * Read an optional query parameter holding a JSON object of ISO-8601
+ * timestamps, e.g. {"bedroom":"2026-02-08T12:00:00Z"}. The timestamps are
+ * normalized with toISOString so they compare as strings.
+ */
+export function parseTimestampsParam(
+  params: URLSearchParams,
+  name: string
+): Record<string, string> | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+
+  const invalid = () =>
+    new BadRequestError(
+      `Invalid "${name}" parameter: expected a JSON object of ISO-8601 ` +
+        `dates, got "${raw}"`
+    );
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw invalid();
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw invalid();
+  }
+
+  const timestamps: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    const date = typeof value === "string" ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) throw invalid();
+    timestamps[key] = date.toISOString();
+  }
+  return timestamps;
+}
+
+/**
+ * Read an optional calendar-date query parameter in YYYY-MM-DD form.
+ */
+export function parseDateKeyParam(
+  params: URLSearchParams,
+  name: string
+): string | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw) || isNaN(Date.parse(raw))) {
+    throw new BadRequestError(
+      `Invalid "${name}" parameter: expected YYYY-MM-DD, got "${raw}"`
+    );
+  }
+  return raw;
+}
+
+/**
+ * Read a query parameter restricted to a fixed set of values, falling back
+ * to a default when it is absent.
+ */
+export function parseEnumParam<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return fallback;
+
+  if (!(allowed as readonly string[]).includes(raw)) {
+    throw new BadRequestError(
+      `Invalid "${name}" parameter: expected one of ${allowed.join(", ")}, got "${raw}"`
+    );
+  }
+  return raw as T;
+}
+
+/**
+ * Read an optional whole-number query parameter between 1 and `max`.
+ */
+export function parsePositiveIntParam(
+  params: URLSearchParams,
+  name: string,
+  max: number
+): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return undefined;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw new BadRequestError(
+      `Invalid "${name}" parameter: expected a whole number from 1 to ${max}, got "${raw}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Reject ranges whose start is after their end.
+ */
+export function assertOrderedRange<T extends Date | string>(
+  from: T | undefined,
+  to: T | undefined
+) {
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new BadRequestError(`"from" must not be later than "to"`);
+  }
+}
+
+/**
+ * Refuse to answer from a failed sync that left no readings, rather than
+ * pass off an empty result as the data. Older data served in the
+ * meantime is answered as usual.
+ */
+export function assertDataAvailable(data: {
+  error: Pick<DataError, "kind"> | null;
+  readings: unknown[];
+}) {
+  if (data.error && data.readings.length === 0) {
+    throw new UnavailableError(data.error.kind);
+  }
+}
+
+/**
+ * Build a weak ETag from a response body. Hashing the body itself catches
+ * every change, including late readings from a lagging sensor that leave
+ * the newest timestamp as it was.
+ */
+export function etagFor(body: unknown): string {
+  const hash = createHash("sha1").update(JSON.stringify(body)).digest();
+  return `W/"${hash.toString("base64url")}"`;
+}
+
+/**
+ * Respond with JSON, honouring If-None-Match.
+ */
+export function jsonWithETag(request: Request, body: unknown): NextResponse {
+  const etag = etagFor(body);
+  const headers: Record<string, string> = { ETag: etag };
+
+  if (request.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return NextResponse.json(body, { headers });
+}
+
+/**
+ * Map an error thrown inside a route handler to a JSON error response.
+ */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof BadRequestError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof UnauthorizedError) {
+    return NextResponse.json({ error: error.message }, { status: 401 });
+  }
+  if (error instanceof UnavailableError) {
+    return NextResponse.json(
+      { error: error.message, kind: error.kind },
+      { status: 503 }
+    );
+  }
+
+  console.error("API request failed:", error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
@@ -0,0 +1,150 @@
+import { sensorOf } from "./csv-parser";
+import { getStationTimeZone, startOfDay } from "./timezone";
+import { WeatherReading } from "./types";
+
+/**
+ * Correction for one sensor from `effectiveFrom` until the next entry for
+ * it takes over: corrected = raw × gain + offset. Earlier readings keep
+ * the calibration that was in effect when they were taken.
+ */
+export interface Calibration {
+  /** Sensor corrected; by default every sensor. */
+  sensor?: string;
+  /** ISO timestamp, or YYYY-MM-DD for midnight in the station zone. */
+  effectiveFrom: string;
+  temperatureOffset?: number;
+  temperatureGain?: number;
+  humidityOffset?: number;
+  humidityGain?: number;
+  /** e.g. "Against the reference hygrometer". */
+  note?: string;
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const OPTIONAL_NUMBERS = [
+  "temperatureOffset",
+  "temperatureGain",
+  "humidityOffset",
+  "humidityGain",
+] as const;
+
+/** When a calibration starts, as epoch ms. */
+function effectiveTime(calibration: Calibration): number {
+  return Date.parse(calibration.effectiveFrom);
+}
+
+/**
+ * Parse the CALIBRATIONS environment variable (a JSON array). Invalid
+ * entries are reported and skipped. Date-only `effectiveFrom` values are
+ * resolved to full timestamps, and the result is sorted oldest first.
+ */
+export function getCalibrations(
+  timeZone: string = getStationTimeZone()
+): Calibration[] {
+  const raw = process.env.CALIBRATIONS;
+  if (!raw) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error("CALIBRATIONS is not valid JSON; values are uncorrected");
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    console.error("CALIBRATIONS must be a JSON array of calibrations");
+    return [];
+  }
+
+  return parsed
+    .filter((entry, i): entry is Calibration => {
+      const valid =
+        typeof entry?.effectiveFrom === "string" &&
+        (DATE_KEY.test(entry.effectiveFrom) ||
+          !Number.isNaN(Date.parse(entry.effectiveFrom))) &&
+        (entry.sensor === undefined || typeof entry.sensor === "string") &&
+        OPTIONAL_NUMBERS.every(
+          (key) => entry[key] === undefined || typeof entry[key] === "number"
+        );
+      if (!valid) console.error(`Skipping invalid calibration #${i}:`, entry);
+      return valid;
+    })
+    .map((entry) => ({
+      ...entry,
+      effectiveFrom: DATE_KEY.test(entry.effectiveFrom)
+        ? startOfDay(entry.effectiveFrom, timeZone).toISOString()
+        : new Date(entry.effectiveFrom).toISOString(),
+    }))
+    .sort((a, b) => effectiveTime(a) - effectiveTime(b));
+}
+
+/**
+ * The calibration in effect for `sensor` at `time`: the latest one that
+ * has started, preferring entries naming the sensor over catch-all ones.
+ * Expects calibrations sorted oldest first, as getCalibrations returns.
+ */
+export function calibrationFor(
+  calibrations: Calibration[],
+  sensor: string,
+  time: Date
+): Calibration | null {
+  let specific: Calibration | null = null;
+  let general: Calibration | null = null;
+
+  for (const c of calibrations) {
+    if (effectiveTime(c) > time.getTime()) break;
+    if (c.sensor === sensor) specific = c;
+    else if (c.sensor === undefined) general = c;
+  }
+
+  return specific ?? general;
+}
+
+/**
+ * Correct readings with the calibration in effect when each was taken.
+ * Values aren't clamped, so cleanReadings can still flag a glitch that
+ * lands out of range.
+ */
+export function applyCalibrations(
+  readings: WeatherReading[],
+  calibrations: Calibration[]
+): WeatherReading[] {
+  if (calibrations.length === 0) return readings;
+
+  return readings.map((r) => {
+    const c = calibrationFor(calibrations, sensorOf(r), r.timestamp);
+    if (!c) return r;
+
+    const temperature =
+      r.temperature * (c.temperatureGain ?? 1) + (c.temperatureOffset ?? 0);
+    const humidity =
+      r.humidity * (c.humidityGain ?? 1) + (c.humidityOffset ?? 0);
+
+    return {
+      ...r,
+      temperature: +temperature.toFixed(2),
+      humidity: +humidity.toFixed(2),
+    };
+  });
+}
+
+/** Human-readable correction, e.g. "−1.5°C, +4%" or "×1.02 +0.3°C". */
+export function describeCalibration(c: Calibration): string {
+  const part = (gain?: number, offset?: number, unit = "") => {
+    const pieces: string[] = [];
+    if (gain !== undefined && gain !== 1) pieces.push(`×${gain}`);
+    if (offset) {
+      pieces.push(`${offset > 0 ? "+" : "−"}${Math.abs(offset)}${unit}`);
+    }
+    return pieces.join(" ");
+  };
+
+  const parts = [
+    part(c.temperatureGain, c.temperatureOffset, "°C"),
+    part(c.humidityGain, c.humidityOffset, "%"),
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : "no correction";
+}
@@ -0,0 +1,178 @@
+import { groupBySensor } from "./csv-parser";
+import { WeatherReading } from "./types";
+
+export type CleanedMetric = "temperature" | "humidity";
+
+/** Why the cleaning stage set a reading aside. */
+export type FlagReason =
+  | "out-of-range" // outside what the sensor can physically report
+  | "spike"; // far from the median of its neighbours (Hampel filter)
+
+/** A reading the cleaning stage removed, and which values were wrong. */
+export interface FlaggedReading extends WeatherReading {
+  reason: FlagReason;
+  metrics: CleanedMetric[];
+}
+
+export interface CleaningConfig {
+  enabled: boolean;
+  /** Plausible values; anything outside is a read error. */
+  range: Record<CleanedMetric, { min: number; max: number }>;
+  /** Readings either side of each one in the Hampel window. */
+  windowSize: number;
+  /** Distance from the window median, in scaled MADs, that makes a spike. */
+  threshold: number;
+  /**
+   * Least spread assumed around the median. The DHT11 reports whole
+   * degrees and percent, so a flat window would otherwise flag any change.
+   */
+  minSpread: Record<CleanedMetric, number>;
+}
+
+export interface CleaningResult {
+  readings: WeatherReading[];
+  flagged: FlaggedReading[];
+}
+
+/**
+ * Only physically implausible values (-40–80°C, 0–100%) and a ±3σ filter.
+ * The DHT11 itself stops at 0°C, but sensors on balconies and in sheds
+ * report below freezing.
+ */
+export const DEFAULT_CLEANING: CleaningConfig = {
+  enabled: true,
+  range: {
+    temperature: { min: -40, max: 80 },
+    humidity: { min: 0, max: 100 },
+  },
+  windowSize: 3,
+  threshold: 3,
+  minSpread: { temperature: 1, humidity: 5 },
+};
+
+const METRICS: CleanedMetric[] = ["temperature", "humidity"];
+
+// Scales the median absolute deviation to a standard deviation
+const MAD_SCALE = 1.4826;
+
+/**
+ * Parse the CLEANING_CONFIG environment variable: a JSON object overriding
+ * parts of DEFAULT_CLEANING, e.g. {"range":{"temperature":{"min":-10,
+ * "max":50}}} or {"enabled":false}. Invalid JSON keeps the defaults.
+ */
+export function getCleaningConfig(): CleaningConfig {
+  const raw = process.env.CLEANING_CONFIG;
+  if (!raw) return DEFAULT_CLEANING;
+
+  let parsed: Partial<CleaningConfig>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.error("CLEANING_CONFIG is not valid JSON; using the defaults");
+    return DEFAULT_CLEANING;
+  }
+
+  return {
+    ...DEFAULT_CLEANING,
+    ...parsed,
+    range: {
+      temperature: {
+        ...DEFAULT_CLEANING.range.temperature,
+        ...parsed.range?.temperature,
+      },
+      humidity: {
+        ...DEFAULT_CLEANING.range.humidity,
+        ...parsed.range?.humidity,
+      },
+    },
+    minSpread: { ...DEFAULT_CLEANING.minSpread, ...parsed.minSpread },
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Indexes of spikes in a series: values further than `threshold` scaled
+ * MADs (at least `minSpread`) from the median of the `windowSize` values
+ * either side of them.
+ */
+export function hampelOutliers(
+  values: number[],
+  windowSize: number,
+  threshold: number,
+  minSpread = 0
+): Set<number> {
+  const outliers = new Set<number>();
+
+  values.forEach((value, i) => {
+    const window = values.slice(
+      Math.max(0, i - windowSize),
+      i + windowSize + 1
+    );
+    if (window.length < 3) return;
+
+    const m = median(window);
+    const mad = MAD_SCALE * median(window.map((v) => Math.abs(v - m)));
+    if (Math.abs(value - m) > threshold * Math.max(mad, minSpread)) {
+      outliers.add(i);
+    }
+  });
+
+  return outliers;
+}
+
+/**
+ * Remove read errors from one file's readings: first values outside the
+ * plausible range, then spikes relative to each sensor's neighbouring
+ * readings. Removed readings are returned alongside, flagged with why.
+ */
+export function cleanReadings(
+  readings: WeatherReading[],
+  config: CleaningConfig = DEFAULT_CLEANING
+): CleaningResult {
+  if (!config.enabled) return { readings, flagged: [] };
+
+  const kept: WeatherReading[] = [];
+  const flagged: FlaggedReading[] = [];
+
+  for (const group of groupBySensor(readings).values()) {
+    const series = [...group].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+
+    const inRange: WeatherReading[] = [];
+    for (const r of series) {
+      const metrics = METRICS.filter(
+        (m) => r[m] < config.range[m].min || r[m] > config.range[m].max
+      );
+      if (metrics.length > 0) {
+        flagged.push({ ...r, reason: "out-of-range", metrics });
+      } else {
+        inRange.push(r);
+      }
+    }
+
+    const spikes = METRICS.map((m) =>
+      hampelOutliers(
+        inRange.map((r) => r[m]),
+        config.windowSize,
+        config.threshold,
+        config.minSpread[m]
+      )
+    );
+    inRange.forEach((r, i) => {
+      const metrics = METRICS.filter((_, j) => spikes[j].has(i));
+      if (metrics.length > 0) {
+        flagged.push({ ...r, reason: "spike", metrics });
+      } else {
+        kept.push(r);
+      }
+    });
+  }
+
+  return { readings: kept, flagged };
+}
@@ -0,0 +1,157 @@
+import { AggregatedReading, WeatherReading } from "./types";
+
+/** A reading or bucket average; only the values matter here. */
+type Sample = Pick<WeatherReading, "temperature" | "humidity"> &
+  Partial<Omit<AggregatedReading, keyof WeatherReading>>;
+
+/** Averages and extremes of one period. */
+export interface PeriodSummary {
+  avgTemperature: number;
+  minTemperature: number;
+  maxTemperature: number;
+  avgHumidity: number;
+  minHumidity: number;
+  maxHumidity: number;
+}
+
+/** Two periods side by side; `delta` is current minus previous. */
+export interface PeriodComparison {
+  current: PeriodSummary;
+  previous: PeriodSummary;
+  delta: PeriodSummary;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (n: number) => +n.toFixed(1);
+
+/**
+ * Summarize a period of readings. Bucket averages count once per reading
+ * they cover and contribute their own min/max, so tiers summarize the same
+ * as the raw readings behind them. Returns null for an empty period.
+ */
+export function summarizePeriod(samples: Sample[]): PeriodSummary | null {
+  if (samples.length === 0) return null;
+
+  let weight = 0;
+  let temperature = 0;
+  let humidity = 0;
+  let minTemperature = Infinity;
+  let maxTemperature = -Infinity;
+  let minHumidity = Infinity;
+  let maxHumidity = -Infinity;
+
+  for (const s of samples) {
+    const count = s.count ?? 1;
+    weight += count;
+    temperature += s.temperature * count;
+    humidity += s.humidity * count;
+    minTemperature = Math.min(
+      minTemperature,
+      s.minTemperature ?? s.temperature
+    );
+    maxTemperature = Math.max(
+      maxTemperature,
+      s.maxTemperature ?? s.temperature
+    );
+    minHumidity = Math.min(minHumidity, s.minHumidity ?? s.humidity);
+    maxHumidity = Math.max(maxHumidity, s.maxHumidity ?? s.humidity);
+  }
+
+  return {
+    avgTemperature: round(temperature / weight),
+    minTemperature,
+    maxTemperature,
+    avgHumidity: round(humidity / weight),
+    minHumidity,
+    maxHumidity,
+  };
+}
+
+/** Compare two periods. Null unless both have readings. */
+export function comparePeriods(
+  current: Sample[],
+  previous: Sample[]
+): PeriodComparison | null {
+  const a = summarizePeriod(current);
+  const b = summarizePeriod(previous);
+  if (!a || !b) return null;
+
+  const diff = (key: keyof PeriodSummary) => round(a[key] - b[key]);
+
+  return {
+    current: a,
+    previous: b,
+    delta: {
+      avgTemperature: diff("avgTemperature"),
+      minTemperature: diff("minTemperature"),
+      maxTemperature: diff("maxTemperature"),
+      avgHumidity: diff("avgHumidity"),
+      minHumidity: diff("minHumidity"),
+      maxHumidity: diff("maxHumidity"),
+    },
+  };
+}
+
+/**
+ * The last `days` days before the latest reading against the `days` days
+ * before that. Expects chronologically sorted readings.
+ */
+export function compareRecentDays(
+  readings: WeatherReading[],
+  days = 7
+): PeriodComparison | null {
+  if (readings.length === 0) return null;
+
+  const latest = readings[readings.length - 1].timestamp.getTime();
+  const span = days * DAY_MS;
+  const current: WeatherReading[] = [];
+  const previous: WeatherReading[] = [];
+
+  for (const r of readings) {
+    const age = latest - r.timestamp.getTime();
+    if (age < span) current.push(r);
+    else if (age < 2 * span) previous.push(r);
+  }
+
+  return comparePeriods(current, previous);
+}
+
+/**
+ * Line a comparison period up with the current one: for each current
+ * time, the comparison sample nearest to `time - offsetMs`, or undefined
+ * when none lies within `toleranceMs`. `previous` must be chronological.
+ */
+export function alignByOffset<T extends { timestamp: string }>(
+  times: string[],
+  previous: T[],
+  offsetMs: number,
+  toleranceMs: number
+): (T | undefined)[] {
+  const stamps = previous.map((p) => new Date(p.timestamp).getTime());
+
+  return times.map((time) => {
+    const target = new Date(time).getTime() - offsetMs;
+
+    // First sample at or after the target
+    let lo = 0;
+    let hi = stamps.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (stamps[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const distance = (i: number) =>
+      i >= 0 && i < stamps.length ? Math.abs(stamps[i] - target) : Infinity;
+    const best = distance(lo - 1) < distance(lo) ? lo - 1 : lo;
+
+    return distance(best) <= toleranceMs ? previous[best] : undefined;
+  });
+}
+
+/** A signed change for display, e.g. "+0.8°C" or "−2%". */
+export function formatDelta(value: number, unit: string): string {
+  if (value === 0) return `±0${unit}`;
+  return `${value > 0 ? "+" : "−"}${Math.abs(value)}${unit}`;
+}
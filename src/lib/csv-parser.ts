@@ -1,15 +1,91 @@
-import { WeatherReading, WeatherStats } from "./types";
+import {
+  AggregatedReading,
+  CustomDateRange,
+  DailySummary,
+  DateRange,
+  ParseDiagnostics,
+  RejectReason,
+  WeatherReading,
+  WeatherStats,
+} from "./types";
+import {
+  addDays,
+  daysBetween,
+  parseZonedTimestamp,
+  startOfDay,
+  toDateKey,
+} from "./timezone";
+import { deriveMetrics, dewPoint } from "./derived-metrics";
+
+/**
+ * Convert a Fahrenheit reading to Celsius, rounded to 2 decimals.
+ */
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return +(((fahrenheit - 32) * 5) / 9).toFixed(2);
+}
+
+/** Sensor id for readings that don't name one. */
+export const DEFAULT_SENSOR = "main";
+
+/** Sensor id of a reading, falling back to DEFAULT_SENSOR. */
+export function sensorOf(reading: { sensor?: string }): string {
+  return reading.sensor ?? DEFAULT_SENSOR;
+}
+
+/** Maximum number of rejected lines kept as samples per file. */
+const MAX_REJECT_SAMPLES = 5;
 
 /**
  * Parse a single raw CSV string from the Pi weather station.
  *
  * Actual format (comma-separated, no header row):
  *   2026-02-08 12:00:21,Humidity: 59.00%  Temp: 18.10C
+ *
+ * Temperatures may be signed and in either Celsius or Fahrenheit
+ * ("Temp: -3.20C", "Temp: 64.1F"); they are always returned in Celsius.
+ *
+ * The Pi writes timestamps without an offset, so they are interpreted as
+ * wall-clock time in `timeZone` (the Pi's zone) and converted to UTC.
+ *
+ * A line may name its sensor with a "Sensor: bedroom" / "Room: bedroom"
+ * token or a trailing column ("...Temp: 18.10C,bedroom"); otherwise
+ * readings get `sensor` (when given) or no sensor at all.
+ */
+export function parseCSV(
+  raw: string,
+  timeZone = "UTC",
+  sensor?: string
+): WeatherReading[] {
+  return parseCSVWithDiagnostics(raw, timeZone, sensor).readings;
+}
+
+/**
+ * Same as parseCSV, but also reports how many lines were accepted and
+ * why the others were rejected. Blank lines and header rows are neither.
  */
-export function parseCSV(raw: string): WeatherReading[] {
+export function parseCSVWithDiagnostics(
+  raw: string,
+  timeZone = "UTC",
+  sensor?: string
+): { readings: WeatherReading[]; diagnostics: ParseDiagnostics } {
   // Normalize line endings (\r\n -> \n)
   const lines = raw.replace(/\r\n/g, "\n").trim().split("\n");
   const readings: WeatherReading[] = [];
+  const diagnostics: ParseDiagnostics = {
+    acceptedLines: 0,
+    rejectedLines: 0,
+    rejectReasons: {},
+    samples: [],
+  };
+
+  const reject = (i: number, line: string, reason: RejectReason) => {
+    diagnostics.rejectedLines++;
+    diagnostics.rejectReasons[reason] =
+      (diagnostics.rejectReasons[reason] ?? 0) + 1;
+    if (diagnostics.samples.length < MAX_REJECT_SAMPLES) {
+      diagnostics.samples.push({ lineNumber: i + 1, reason, line });
+    }
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -18,49 +94,87 @@ export function parseCSV(raw: string): WeatherReading[] {
     // Skip header row if present
     if (line.toLowerCase().startsWith("timestamp")) continue;
 
+    // The Arduino sketch prints this instead of a reading when the DHT11
+    // doesn't respond
+    if (/failed to read/i.test(line)) {
+      reject(i, line, "sensor-error");
+      continue;
+    }
+
     // Split on the FIRST comma only (timestamp may not contain commas,
     // but the raw data portion shouldn't either)
     const commaIndex = line.indexOf(",");
-    if (commaIndex === -1) continue;
+    if (commaIndex === -1) {
+      reject(i, line, "missing-comma");
+      continue;
+    }
 
     const timestampStr = line.substring(0, commaIndex).trim();
     const rawData = line.substring(commaIndex + 1).trim();
 
     // Parse timestamp
-    const timestamp = new Date(timestampStr);
-    if (isNaN(timestamp.getTime())) continue;
+    const timestamp = parseZonedTimestamp(timestampStr, timeZone);
+    if (isNaN(timestamp.getTime())) {
+      reject(i, line, "invalid-timestamp");
+      continue;
+    }
 
     // Extract humidity: "Humidity: 59.00%"
-    const humidityMatch = rawData.match(/Humidity:\s*([\d.]+)%/i);
-    // Extract temperature: "Temp: 18.10C"
-    const tempMatch = rawData.match(/Temp:\s*([\d.]+)C/i);
+    const humidityMatch = rawData.match(/Humidity:\s*([+-]?[\d.]+)%/i);
+    // Extract temperature: "Temp: 18.10C", "Temp: -3.20C" or "Temp: 64.1F"
+    const tempMatch = rawData.match(/Temp:\s*([+-]?[\d.]+)\s*°?([CF])/i);
 
-    if (!humidityMatch || !tempMatch) continue;
+    if (!humidityMatch) {
+      reject(i, line, "missing-humidity");
+      continue;
+    }
+    if (!tempMatch) {
+      reject(i, line, "missing-temperature");
+      continue;
+    }
 
     const humidity = parseFloat(humidityMatch[1]);
-    const temperature = parseFloat(tempMatch[1]);
+    const rawTemperature = parseFloat(tempMatch[1]);
+    const temperature =
+      tempMatch[2].toUpperCase() === "F"
+        ? fahrenheitToCelsius(rawTemperature)
+        : rawTemperature;
 
-    if (isNaN(humidity) || isNaN(temperature)) continue;
+    if (isNaN(humidity) || isNaN(temperature)) {
+      reject(i, line, "invalid-number");
+      continue;
+    }
 
-    readings.push({ timestamp, temperature, humidity });
+    const sensorMatch =
+      rawData.match(/(?:Sensor|Room):\s*([\w-]+)/i) ??
+      rawData.match(/,\s*([\w-]+)\s*$/);
+    const lineSensor = sensorMatch?.[1] ?? sensor;
+
+    diagnostics.acceptedLines++;
+    readings.push(
+      lineSensor
+        ? { timestamp, temperature, humidity, sensor: lineSensor }
+        : { timestamp, temperature, humidity }
+    );
   }
 
-  return readings;
+  return { readings, diagnostics };
 }
 
 /**
  * Merge and deduplicate readings from multiple CSV files,
  * sorted chronologically.
  */
-export function mergeReadings(
-  readingsArrays: WeatherReading[][]
-): WeatherReading[] {
+export function mergeReadings<T extends WeatherReading>(
+  readingsArrays: T[][]
+): T[] {
   const all = readingsArrays.flat();
 
-  // Deduplicate by timestamp (keep first occurrence)
-  const seen = new Set<number>();
+  // Deduplicate by sensor + timestamp (keep first occurrence), so rooms
+  // logging at the same moment don't collide
+  const seen = new Set<string>();
   const unique = all.filter((r) => {
-    const key = r.timestamp.getTime();
+    const key = `${sensorOf(r)}|${r.timestamp.getTime()}`;
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
@@ -72,6 +186,22 @@ export function mergeReadings(
   return unique;
 }
 
+/**
+ * Split readings by sensor, preserving order within each sensor.
+ */
+export function groupBySensor<T extends WeatherReading>(
+  readings: T[]
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const r of readings) {
+    const key = sensorOf(r);
+    const group = groups.get(key);
+    if (group) group.push(r);
+    else groups.set(key, [r]);
+  }
+  return groups;
+}
+
 /**
  * Compute summary statistics from a set of readings.
  */
@@ -80,8 +210,10 @@ export function computeStats(readings: WeatherReading[]): WeatherStats | null {
 
   const temps = readings.map((r) => r.temperature);
   const humids = readings.map((r) => r.humidity);
+  const dewPoints = readings.map((r) => dewPoint(r.temperature, r.humidity));
 
   const latest = readings[readings.length - 1];
+  const derived = deriveMetrics(latest);
 
   return {
     currentTemperature: latest.temperature,
@@ -96,29 +228,226 @@ export function computeStats(readings: WeatherReading[]): WeatherStats | null {
     maxTemperature: Math.max(...temps),
     minHumidity: Math.min(...humids),
     maxHumidity: Math.max(...humids),
+    currentDewPoint: derived.dewPoint,
+    avgDewPoint: +(
+      dewPoints.reduce((a, b) => a + b, 0) / dewPoints.length
+    ).toFixed(1),
+    minDewPoint: +Math.min(...dewPoints).toFixed(1),
+    maxDewPoint: +Math.max(...dewPoints).toFixed(1),
+    currentHeatIndex: derived.heatIndex,
+    currentHumidex: derived.humidex,
+    currentAbsoluteHumidity: derived.absoluteHumidity,
+    currentVaporPressureDeficit: derived.vaporPressureDeficit,
     totalReadings: readings.length,
     lastUpdated: latest.timestamp,
   };
 }
 
+/**
+ * Roll readings up into one summary per calendar day, where "day" is
+ * determined in the given time zone. Returned in chronological order.
+ */
+export function computeDailySummaries(
+  readings: WeatherReading[],
+  timeZone: string
+): DailySummary[] {
+  const byDate = new Map<string, WeatherReading[]>();
+
+  for (const r of readings) {
+    const key = toDateKey(r.timestamp, timeZone);
+    const bucket = byDate.get(key);
+    if (bucket) bucket.push(r);
+    else byDate.set(key, [r]);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      const stats = computeStats(day)!;
+      return {
+        date,
+        avgTemperature: stats.avgTemperature,
+        avgHumidity: stats.avgHumidity,
+        minTemperature: stats.minTemperature,
+        maxTemperature: stats.maxTemperature,
+        minHumidity: stats.minHumidity,
+        maxHumidity: stats.maxHumidity,
+        readingCount: stats.totalReadings,
+      };
+    });
+}
+
+/** Length of each relative date range, in milliseconds. */
+const RANGE_MS: Record<Exclude<DateRange, "all">, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Earliest timestamp included in a date range, or null for "all".
+ * Shared by the server-side filter and the client charts so both agree
+ * on what a range contains.
+ */
+export function rangeCutoff(
+  range: DateRange,
+  now: Date = new Date()
+): Date | null {
+  if (range === "all") return null;
+  return new Date(now.getTime() - RANGE_MS[range]);
+}
+
 /**
  * Filter readings by date range.
  */
 export function filterByDateRange(
   readings: WeatherReading[],
-  range: "24h" | "7d" | "30d" | "all"
+  range: DateRange,
+  now: Date = new Date()
 ): WeatherReading[] {
-  if (range === "all") return readings;
+  const cutoff = rangeCutoff(range, now);
+  if (!cutoff) return readings;
+
+  return readings.filter((r) => r.timestamp >= cutoff);
+}
 
-  const now = new Date();
-  const msMap = {
-    "24h": 24 * 60 * 60 * 1000,
-    "7d": 7 * 24 * 60 * 60 * 1000,
-    "30d": 30 * 24 * 60 * 60 * 1000,
+/**
+ * Keep readings between `from` and `to` (both inclusive, both optional).
+ */
+export function filterByWindow<T extends WeatherReading>(
+  readings: T[],
+  from?: Date,
+  to?: Date
+): T[] {
+  return readings.filter(
+    (r) => (!from || r.timestamp >= from) && (!to || r.timestamp <= to)
+  );
+}
+
+/**
+ * First and last instant of a custom range, with days starting at
+ * midnight in `timeZone`.
+ */
+export function customRangeBounds(
+  range: CustomDateRange,
+  timeZone: string
+): { from: Date; to: Date } {
+  return {
+    from: startOfDay(range.from, timeZone),
+    to: new Date(startOfDay(addDays(range.to, 1), timeZone).getTime() - 1),
   };
+}
 
-  const cutoff = new Date(now.getTime() - msMap[range]);
-  return readings.filter((r) => r.timestamp >= cutoff);
+/**
+ * The whole days a preset covers, ending today in `timeZone` ("24h" is
+ * just today). Used as the starting point for previous/next navigation.
+ */
+export function presetToCustomRange(
+  range: Exclude<DateRange, "all">,
+  timeZone: string,
+  now: Date = new Date()
+): CustomDateRange {
+  const today = toDateKey(now, timeZone);
+  const days = Math.round(RANGE_MS[range] / (24 * 60 * 60 * 1000));
+  return { from: addDays(today, 1 - days), to: today };
+}
+
+/**
+ * Move a custom range back (-1) or forward (1) by its own length.
+ */
+export function shiftCustomRange(
+  range: CustomDateRange,
+  direction: -1 | 1
+): CustomDateRange {
+  const days = (daysBetween(range.from, range.to) + 1) * direction;
+  return { from: addDays(range.from, days), to: addDays(range.to, days) };
+}
+
+/**
+ * Average readings into fixed-width time buckets (aligned to the Unix epoch).
+ * Each bucket becomes one reading stamped with the bucket's start time,
+ * carrying the min/max of the readings it covers. Sensors are bucketed
+ * separately. Expects readings in chronological order, as returned by
+ * mergeReadings.
+ */
+export function averageByInterval(
+  readings: WeatherReading[],
+  intervalMs: number
+): AggregatedReading[] {
+  return averageBuckets(
+    readings,
+    (t) => Math.floor(t.getTime() / intervalMs) * intervalMs
+  );
+}
+
+/**
+ * Average readings into calendar days in `timeZone`, like averageByInterval
+ * with each bucket stamped at local midnight. Days line up with
+ * computeDailySummaries.
+ */
+export function averageByDay(
+  readings: WeatherReading[],
+  timeZone: string
+): AggregatedReading[] {
+  const midnights = new Map<string, number>();
+  return averageBuckets(readings, (t) => {
+    const key = toDateKey(t, timeZone);
+    let midnight = midnights.get(key);
+    if (midnight === undefined) {
+      midnight = startOfDay(key, timeZone).getTime();
+      midnights.set(key, midnight);
+    }
+    return midnight;
+  });
+}
+
+/** Average each sensor's readings by the bucket start `bucketOf` gives. */
+function averageBuckets(
+  readings: WeatherReading[],
+  bucketOf: (timestamp: Date) => number
+): AggregatedReading[] {
+  const result: AggregatedReading[] = [];
+
+  for (const group of groupBySensor(readings).values()) {
+    const sensor = group[0].sensor;
+    let bucket: WeatherReading[] = [];
+    let bucketStart = -1;
+
+    const flush = () => {
+      if (bucket.length === 0) return;
+      const temps = bucket.map((r) => r.temperature);
+      const humids = bucket.map((r) => r.humidity);
+      const reading: AggregatedReading = {
+        timestamp: new Date(bucketStart),
+        temperature: +(
+          temps.reduce((a, b) => a + b, 0) / temps.length
+        ).toFixed(1),
+        humidity: +(humids.reduce((a, b) => a + b, 0) / humids.length).toFixed(
+          1
+        ),
+        minTemperature: Math.min(...temps),
+        maxTemperature: Math.max(...temps),
+        minHumidity: Math.min(...humids),
+        maxHumidity: Math.max(...humids),
+        count: bucket.length,
+      };
+      if (sensor) reading.sensor = sensor;
+      result.push(reading);
+    };
+
+    for (const r of group) {
+      const start = bucketOf(r.timestamp);
+      if (start !== bucketStart) {
+        flush();
+        bucketStart = start;
+        bucket = [];
+      }
+      bucket.push(r);
+    }
+    flush();
+  }
+
+  return result.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 }
 
 /**
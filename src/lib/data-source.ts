@@ -0,0 +1,79 @@
+import { createGoogleDriveSource } from "./google-drive";
+import { createLocalSource } from "./local-source";
+import { createS3Source } from "./s3-source";
+import { createHttpSource } from "./http-source";
+import { ConfigError } from "./errors";
+
+/** A single CSV file as seen by a data source. */
+export interface SourceFile {
+  id: string;
+  name: string;
+  /** Location relative to the source root ("bedroom/log.csv"); else name. */
+  path?: string;
+  modifiedTime: string | null; // ISO-8601, when the source knows it
+  size: number | null; // Bytes, when the source knows it
+}
+
+/**
+ * Somewhere the Pi's CSV logs can be read from. Implementations exist for
+ * Google Drive, a local directory, an S3-compatible bucket and plain HTTP.
+ */
+export interface WeatherDataSource {
+  /** Short identifier used in logs ("google-drive", "local", ...). */
+  readonly name: string;
+  /** List every CSV file the source currently holds. */
+  listFiles(): Promise<SourceFile[]>;
+  /** Download the raw contents of one file. */
+  fetchContent(file: SourceFile): Promise<string>;
+  /** List files created or modified after the given time. */
+  listChangedFiles(since: Date): Promise<SourceFile[]>;
+}
+
+/**
+ * Default listChangedFiles for sources without a native change feed:
+ * list everything and keep files whose modifiedTime is newer than `since`.
+ * Files with an unknown modifiedTime are always treated as changed.
+ */
+export function filterChangedFiles(
+  files: SourceFile[],
+  since: Date
+): SourceFile[] {
+  return files.filter(
+    (f) => !f.modifiedTime || new Date(f.modifiedTime) > since
+  );
+}
+
+/**
+ * Build the data source selected by WEATHER_DATA_SOURCE
+ * (defaults to Google Drive).
+ */
+export function getDataSource(): WeatherDataSource {
+  const kind = process.env.WEATHER_DATA_SOURCE || "google-drive";
+
+  switch (kind) {
+    case "google-drive":
+      return createGoogleDriveSource();
+    case "local":
+      return createLocalSource(process.env.WEATHER_LOCAL_DIR || "./data");
+    case "s3":
+      return createS3Source({
+        bucket: process.env.S3_BUCKET || "",
+        prefix: process.env.S3_PREFIX,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+    case "http":
+      return createHttpSource(
+        (process.env.WEATHER_HTTP_URLS || "")
+          .split(",")
+          .map((u) => u.trim())
+          .filter(Boolean)
+      );
+    default:
+      throw new ConfigError(
+        `Unknown WEATHER_DATA_SOURCE "${kind}". Use one of: google-drive, local, s3, http`
+      );
+  }
+}
@@ -0,0 +1,111 @@
+import { WeatherReading } from "./types";
+
+/**
+ * Quantities derived from a temperature (°C) and relative humidity (%)
+ * pair. Relative humidity alone says little about condensation or comfort;
+ * dew point is what tells you whether a cold window will fog.
+ */
+export interface DerivedMetrics {
+  /** Temperature at which the air would saturate, °C. */
+  dewPoint: number;
+  /** NOAA heat index ("feels like"), °C. */
+  heatIndex: number;
+  /** Canadian humidex, °C-equivalent. */
+  humidex: number;
+  /** Water vapour per cubic metre of air, g/m³. */
+  absoluteHumidity: number;
+  /** Vapour pressure deficit, kPa. */
+  vaporPressureDeficit: number;
+}
+
+// Magnus coefficients (Sonntag 1990), good to ~0.1°C from -45°C to 60°C
+const MAGNUS_B = 17.62;
+const MAGNUS_C = 243.12;
+
+// Dew point is undefined at 0% RH; the DHT11 can't resolve below ~5% anyway
+const MIN_HUMIDITY = 1;
+
+function round(value: number, decimals = 1): number {
+  return +value.toFixed(decimals);
+}
+
+/** Saturation vapour pressure over water at `celsius`, in hPa. */
+export function saturationVaporPressure(celsius: number): number {
+  return 6.112 * Math.exp((MAGNUS_B * celsius) / (MAGNUS_C + celsius));
+}
+
+export function dewPoint(celsius: number, humidity: number): number {
+  const rh = Math.max(humidity, MIN_HUMIDITY);
+  const gamma =
+    Math.log(rh / 100) + (MAGNUS_B * celsius) / (MAGNUS_C + celsius);
+  return (MAGNUS_C * gamma) / (MAGNUS_B - gamma);
+}
+
+/**
+ * NOAA heat index: Steadman's simple formula in mild conditions, the
+ * Rothfusz regression (with its low/high humidity adjustments) from 80°F.
+ */
+export function heatIndex(celsius: number, humidity: number): number {
+  const t = (celsius * 9) / 5 + 32;
+  const rh = humidity;
+
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  let hi = simple;
+
+  if ((simple + t) / 2 >= 80) {
+    hi =
+      -42.379 +
+      2.04901523 * t +
+      10.14333127 * rh -
+      0.22475541 * t * rh -
+      0.00683783 * t * t -
+      0.05481717 * rh * rh +
+      0.00122874 * t * t * rh +
+      0.00085282 * t * rh * rh -
+      0.00000199 * t * t * rh * rh;
+
+    if (rh < 13 && t >= 80 && t <= 112) {
+      hi -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (rh > 85 && t >= 80 && t <= 87) {
+      hi += ((rh - 85) / 10) * ((87 - t) / 5);
+    }
+  }
+
+  return ((hi - 32) * 5) / 9;
+}
+
+/** Environment Canada humidex, computed from the dew point. */
+export function humidex(celsius: number, humidity: number): number {
+  const dewKelvin = dewPoint(celsius, humidity) + 273.15;
+  const vapor = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / dewKelvin));
+  return celsius + 0.5555 * (vapor - 10);
+}
+
+export function absoluteHumidity(celsius: number, humidity: number): number {
+  const vapor = (humidity / 100) * saturationVaporPressure(celsius);
+  return (216.7 * vapor) / (273.15 + celsius);
+}
+
+export function vaporPressureDeficit(
+  celsius: number,
+  humidity: number
+): number {
+  return (saturationVaporPressure(celsius) / 10) * (1 - humidity / 100);
+}
+
+/**
+ * All derived metrics for one reading, rounded for display (0.1 for
+ * temperatures and g/m³, 0.01 kPa for VPD).
+ */
+export function deriveMetrics(
+  reading: Pick<WeatherReading, "temperature" | "humidity">
+): DerivedMetrics {
+  const { temperature: t, humidity: rh } = reading;
+  return {
+    dewPoint: round(dewPoint(t, rh)),
+    heatIndex: round(heatIndex(t, rh)),
+    humidex: round(humidex(t, rh)),
+    absoluteHumidity: round(absoluteHumidity(t, rh)),
+    vaporPressureDeficit: round(vaporPressureDeficit(t, rh), 2),
+  };
+}
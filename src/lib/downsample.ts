@@ -0,0 +1,91 @@
+import { groupBySensor } from "./csv-parser";
+import { WeatherReading } from "./types";
+
+/** Reads one plotted value from a point; undefined when it has none. */
+export type ValueAccessor<T> = (point: T) => number | undefined;
+
+// Roughly one bucket per this many pixels of plot width
+const PIXELS_PER_BUCKET = 4;
+const MIN_BUCKETS = 50;
+const MAX_BUCKETS = 1000;
+
+/**
+ * Bucket count for a chart of the given pixel width. Widths are rounded to
+ * 100px so resizing doesn't re-downsample on every pixel.
+ */
+export function bucketsForWidth(width: number): number {
+  const rounded = Math.max(Math.round(width / 100) * 100, 100);
+  return Math.min(
+    Math.max(Math.round(rounded / PIXELS_PER_BUCKET), MIN_BUCKETS),
+    MAX_BUCKETS
+  );
+}
+
+/**
+ * Shape-preserving downsampling: split the series into `buckets` runs of
+ * consecutive points and keep, for every value, the point holding its
+ * minimum and its maximum in each run (plus the first and last point).
+ * Unlike keeping every Nth point, spikes and dips always survive.
+ *
+ * Returns the data unchanged when it already has no more than two points
+ * per bucket. Order is preserved.
+ */
+export function downsampleMinMax<T>(
+  data: T[],
+  buckets: number,
+  values: ValueAccessor<T>[]
+): T[] {
+  if (buckets < 1 || data.length <= buckets * 2) return data;
+
+  const keep = new Set<number>([0, data.length - 1]);
+  const size = data.length / buckets;
+
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * size);
+    const end = Math.min(Math.floor((b + 1) * size), data.length);
+
+    for (const value of values) {
+      let minIndex = -1;
+      let maxIndex = -1;
+      let min = Infinity;
+      let max = -Infinity;
+
+      for (let i = start; i < end; i++) {
+        const v = value(data[i]);
+        if (v === undefined || Number.isNaN(v)) continue;
+        if (v < min) {
+          min = v;
+          minIndex = i;
+        }
+        if (v > max) {
+          max = v;
+          maxIndex = i;
+        }
+      }
+
+      if (minIndex !== -1) keep.add(minIndex);
+      if (maxIndex !== -1) keep.add(maxIndex);
+    }
+  }
+
+  return [...keep].sort((a, b) => a - b).map((i) => data[i]);
+}
+
+/**
+ * Downsample readings to about `buckets` buckets per sensor, keeping each
+ * sensor's temperature and humidity extremes. Expects chronological order
+ * and returns it.
+ */
+export function downsampleReadings<T extends WeatherReading>(
+  readings: T[],
+  buckets: number
+): T[] {
+  const values: ValueAccessor<T>[] = [
+    (r) => r.temperature,
+    (r) => r.humidity,
+  ];
+
+  return [...groupBySensor(readings).values()]
+    .flatMap((group) => downsampleMinMax(group, buckets, values))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
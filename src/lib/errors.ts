@@ -0,0 +1,119 @@
+/**
+ * Thrown when the data source isn't set up: a required setting is missing
+ * or invalid. Retrying won't help until the environment is fixed.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/** Thrown when synced readings couldn't be turned into dashboard data. */
+export class ParseError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ParseError";
+  }
+}
+
+/** Why fetching the data failed, as far as the dashboard can tell. */
+export type DataErrorKind =
+  | "config" // missing or invalid settings
+  | "auth" // credentials rejected
+  | "quota" // rate-limited
+  | "network" // source unreachable or failing on its end
+  | "parse" // data fetched but unusable
+  | "unknown";
+
+/** A failed attempt to read the data source. */
+export interface DataError {
+  kind: DataErrorKind;
+  message: string;
+  /** ISO timestamp of the attempt. */
+  at: string;
+}
+
+/** Failures that go away by themselves; older data is served meanwhile. */
+export const TRANSIENT_ERRORS: readonly DataErrorKind[] = ["quota", "network"];
+
+const NETWORK_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+// Google reports rate limits as 403s; tell them apart by reason/message
+const QUOTA_PATTERN =
+  /rate ?limit|quota|too many requests|slow ?down|throttl/i;
+
+// Bad keys fail before any HTTP status is involved
+const AUTH_PATTERN =
+  /invalid_grant|invalid_client|unauthorized_client|DECODER routines|no key or keyfile|InvalidAccessKeyId|SignatureDoesNotMatch|AccessDenied|ExpiredToken/i;
+
+const NETWORK_PATTERN =
+  /fetch failed|network|socket hang up|timed? ?out|TimeoutError|AbortError/i;
+
+/** The parts of Google (gaxios) and AWS SDK errors that say what happened. */
+interface ErrorDetails {
+  name?: string;
+  message?: string;
+  code?: string | number;
+  status?: number;
+  response?: { status?: number };
+  $metadata?: { httpStatusCode?: number };
+  errors?: { reason?: string }[];
+  cause?: unknown;
+}
+
+/**
+ * Sort a data source error into a DataErrorKind from its class, HTTP
+ * status, error code and message, following `cause` chains.
+ */
+export function classifyError(error: unknown): DataErrorKind {
+  if (error instanceof ConfigError) return "config";
+  if (error instanceof ParseError || error instanceof SyntaxError) {
+    return "parse";
+  }
+  if (!error || typeof error !== "object") return "unknown";
+
+  const e = error as ErrorDetails;
+  const status =
+    e.status ?? e.response?.status ?? e.$metadata?.httpStatusCode;
+  const text = [
+    e.name,
+    e.message,
+    typeof e.code === "string" ? e.code : undefined,
+    ...(e.errors ?? []).map((r) => r.reason),
+  ].join(" ");
+
+  if (status === 429 || QUOTA_PATTERN.test(text)) return "quota";
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(text)) {
+    return "auth";
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    NETWORK_CODES.has(String(e.code)) ||
+    NETWORK_PATTERN.test(text)
+  ) {
+    return "network";
+  }
+
+  return e.cause ? classifyError(e.cause) : "unknown";
+}
+
+/** Describe a failed attempt for the dashboard. */
+export function toDataError(error: unknown, at = new Date()): DataError {
+  return {
+    kind: classifyError(error),
+    message: error instanceof Error ? error.message : String(error),
+    at: at.toISOString(),
+  };
+}
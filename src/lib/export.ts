@@ -0,0 +1,74 @@
+import type { SerializedReading } from "./weather-data";
+
+export type ExportFormat = "csv" | "json" | "ndjson";
+export type TemperatureUnit = "C" | "F";
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Convert a Celsius temperature to Fahrenheit, rounded to 2 decimals.
+ */
+export function celsiusToFahrenheit(celsius: number): number {
+  return +((celsius * 9) / 5 + 32).toFixed(2);
+}
+
+/**
+ * Build one export row. The temperature column name carries the unit so
+ * files stay self-describing once they leave the dashboard.
+ */
+function toRow(r: SerializedReading, unit: TemperatureUnit) {
+  return unit === "F"
+    ? {
+        timestamp: r.timestamp,
+        temperature_f: celsiusToFahrenheit(r.temperature),
+        humidity: r.humidity,
+        sensor: r.sensor,
+      }
+    : {
+        timestamp: r.timestamp,
+        temperature_c: r.temperature,
+        humidity: r.humidity,
+        sensor: r.sensor,
+      };
+}
+
+/**
+ * Serialize readings for download in the requested format and unit.
+ * Timestamps are kept as ISO-8601 strings (UTC).
+ */
+export function buildExport(
+  readings: SerializedReading[],
+  format: ExportFormat,
+  unit: TemperatureUnit
+): ExportFile {
+  const rows = readings.map((r) => toRow(r, unit));
+
+  switch (format) {
+    case "csv": {
+      const header =
+        `timestamp,temperature_${unit.toLowerCase()},humidity,sensor`;
+      const lines = rows.map((row) => Object.values(row).join(","));
+      return {
+        content: [header, ...lines].join("\n") + "\n",
+        mimeType: "text/csv",
+        extension: "csv",
+      };
+    }
+    case "json":
+      return {
+        content: JSON.stringify(rows, null, 2),
+        mimeType: "application/json",
+        extension: "json",
+      };
+    case "ndjson":
+      return {
+        content: rows.map((row) => JSON.stringify(row) + "\n").join(""),
+        mimeType: "application/x-ndjson",
+        extension: "ndjson",
+      };
+  }
+}
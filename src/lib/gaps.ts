@@ -0,0 +1,137 @@
+import { groupBySensor, sensorOf } from "./csv-parser";
+import { WeatherReading } from "./types";
+
+/** The Pi logs a reading every 5 minutes. */
+export const EXPECTED_INTERVAL_MS = 5 * 60 * 1000;
+
+/** rclone pushes the Pi's logs to Drive every 6 hours. */
+export const SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Missed readings in a row before a stretch counts as an outage
+const DEFAULT_GAP_MULTIPLE = 3;
+
+// Slack for the upload itself and the dashboard's 30-minute cache
+const SYNC_GRACE_MS = 60 * 60 * 1000;
+
+/** Stretch without readings between the two readings either side. */
+export interface Gap {
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+/** A gap in one sensor's readings, as listed on the status page. */
+export interface Outage {
+  sensor: string;
+  start: string; // ISO timestamp of the last reading before
+  end: string; // ISO timestamp of the first reading after
+  durationMs: number;
+}
+
+/** How recent the latest reading is, relative to the sync schedule. */
+export type Freshness = "fresh" | "late" | "stale";
+
+/**
+ * Longest spacing between readings that isn't an outage: GAP_MULTIPLE
+ * (default 3) times the 5-minute cadence.
+ */
+export function getGapThresholdMs(): number {
+  const raw = process.env.GAP_MULTIPLE;
+  if (!raw) return DEFAULT_GAP_MULTIPLE * EXPECTED_INTERVAL_MS;
+
+  const multiple = Number(raw);
+  if (!Number.isFinite(multiple) || multiple <= 1) {
+    console.warn(
+      `GAP_MULTIPLE="${raw}" must be a number above 1; ` +
+        `using ${DEFAULT_GAP_MULTIPLE}`
+    );
+    return DEFAULT_GAP_MULTIPLE * EXPECTED_INTERVAL_MS;
+  }
+  return multiple * EXPECTED_INTERVAL_MS;
+}
+
+/** Gaps longer than `thresholdMs` in a sorted list of epoch-ms times. */
+export function findGaps(times: number[], thresholdMs: number): Gap[] {
+  const gaps: Gap[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] - times[i - 1] > thresholdMs) {
+      gaps.push({ start: times[i - 1], end: times[i] });
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Every sensor's outages, longest first. Expects readings in chronological
+ * order, as returned by mergeReadings.
+ */
+export function detectOutages(
+  readings: WeatherReading[],
+  thresholdMs: number
+): Outage[] {
+  const outages: Outage[] = [];
+
+  for (const group of groupBySensor(readings).values()) {
+    const sensor = sensorOf(group[0]);
+    const times = group.map((r) => r.timestamp.getTime());
+    for (const gap of findGaps(times, thresholdMs)) {
+      outages.push({
+        sensor,
+        start: new Date(gap.start).toISOString(),
+        end: new Date(gap.end).toISOString(),
+        durationMs: gap.end - gap.start,
+      });
+    }
+  }
+
+  return outages.sort((a, b) => b.durationMs - a.durationMs);
+}
+
+/**
+ * Insert a row with nothing but a time into every gap that no row falls
+ * in, so a chart line breaks there instead of bridging the outage.
+ * Expects rows in chronological order.
+ */
+export function insertGapBreaks<T extends { time: string }>(
+  rows: T[],
+  gaps: Gap[]
+): (T | { time: string })[] {
+  if (gaps.length === 0) return rows;
+
+  const result: (T | { time: string })[] = [];
+  let g = 0;
+  for (const row of rows) {
+    const t = new Date(row.time).getTime();
+    while (g < gaps.length && gaps[g].end <= t) {
+      const { start, end } = gaps[g++];
+      const previous = result[result.length - 1];
+      // Rows inside the gap already break the line
+      if (!previous || new Date(previous.time).getTime() <= start) {
+        result.push({ time: new Date((start + end) / 2).toISOString() });
+      }
+    }
+    result.push(row);
+  }
+  return result;
+}
+
+/**
+ * Fresh while the latest reading is within one sync interval (plus some
+ * slack), late after one missed sync, stale after that.
+ */
+export function freshness(lastUpdated: Date, now = new Date()): Freshness {
+  const age = now.getTime() - lastUpdated.getTime();
+  if (age <= SYNC_INTERVAL_MS + SYNC_GRACE_MS) return "fresh";
+  if (age <= 2 * SYNC_INTERVAL_MS + SYNC_GRACE_MS) return "late";
+  return "stale";
+}
+
+/** "2h 15m", "3d 4h" or "40m". */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
@@ -1,4 +1,7 @@
-import { google } from "googleapis";
+import { randomUUID } from "crypto";
+import { google, type drive_v3 } from "googleapis";
+import type { SourceFile, WeatherDataSource } from "./data-source";
+import { ConfigError } from "./errors";
 
 /**
  * Normalize the private key: handle escaped newlines and ensure PEM headers.
@@ -25,7 +28,7 @@ function getDriveClient() {
   const privateKey = normalizePrivateKey(process.env.GOOGLE_PRIVATE_KEY);
 
   if (!email || !privateKey) {
-    throw new Error(
+    throw new ConfigError(
       "Google credentials not configured. Set GOOGLE_SERVICE_ACCOUNT_EMAIL and GOOGLE_PRIVATE_KEY in .env.local"
     );
   }
@@ -41,26 +44,128 @@ function getDriveClient() {
   return google.drive({ version: "v3", auth });
 }
 
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+
+/** Filters applied when listing CSV files in the Drive folder. */
+export interface ListCSVOptions {
+  /** Only return files modified after this time. */
+  modifiedAfter?: Date;
+  /** Only return files created on or after this time. */
+  createdAfter?: Date;
+  /** Only return files whose name contains this substring. */
+  nameContains?: string;
+  /** Descend into subfolders (e.g. year/month folders). */
+  recursive?: boolean;
+}
+
+/**
+ * Read listing options from the environment:
+ * GOOGLE_DRIVE_RECURSIVE, GOOGLE_DRIVE_NAME_FILTER and GOOGLE_DRIVE_SINCE.
+ */
+export function listOptionsFromEnv(): ListCSVOptions {
+  const since = process.env.GOOGLE_DRIVE_SINCE;
+  const createdAfter = since ? new Date(since) : undefined;
+
+  if (createdAfter && isNaN(createdAfter.getTime())) {
+    throw new ConfigError(
+      `GOOGLE_DRIVE_SINCE must be an ISO-8601 date, got "${since}"`
+    );
+  }
+
+  return {
+    recursive: process.env.GOOGLE_DRIVE_RECURSIVE === "true",
+    nameContains: process.env.GOOGLE_DRIVE_NAME_FILTER || undefined,
+    createdAfter,
+  };
+}
+
+/** Escape a value for use inside a single-quoted Drive query string. */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Build the Drive query for the direct children of one folder: matching
+ * CSV files, plus subfolders when recursing.
+ */
+function buildQuery(folderId: string, options: ListCSVOptions): string {
+  const csvClauses = ["mimeType='text/csv'"];
+  if (options.modifiedAfter) {
+    const since = quote(options.modifiedAfter.toISOString());
+    csvClauses.push(`modifiedTime > ${since}`);
+  }
+  if (options.createdAfter) {
+    const since = quote(options.createdAfter.toISOString());
+    csvClauses.push(`createdTime >= ${since}`);
+  }
+  if (options.nameContains) {
+    csvClauses.push(`name contains ${quote(options.nameContains)}`);
+  }
+
+  const match = options.recursive
+    ? `((${csvClauses.join(" and ")}) or mimeType='${FOLDER_MIME_TYPE}')`
+    : csvClauses.join(" and ");
+
+  return `${quote(folderId)} in parents and trashed=false and ${match}`;
+}
+
+/** A listed CSV file, with its path below the root folder. */
+export type DriveCSVFile = drive_v3.Schema$File & { path: string };
+
 /**
  * List all CSV files in the Pi_Weather_Station folder,
- * sorted by creation time (newest first).
+ * sorted by creation time (newest first). Follows nextPageToken so folders
+ * with more than one page of files are listed in full.
  */
-export async function listCSVFiles() {
+export async function listCSVFiles(options: ListCSVOptions = {}) {
   const drive = getDriveClient();
   const folderId = process.env.GOOGLE_DRIVE_FOLDER_ID;
 
   if (!folderId) {
-    throw new Error("GOOGLE_DRIVE_FOLDER_ID environment variable is not set");
+    throw new ConfigError(
+      "GOOGLE_DRIVE_FOLDER_ID environment variable is not set"
+    );
   }
 
-  const response = await drive.files.list({
-    q: `'${folderId}' in parents and mimeType='text/csv' and trashed=false`,
-    fields: "files(id, name, createdTime, modifiedTime, size)",
-    orderBy: "createdTime desc",
-    pageSize: 100,
-  });
+  const files: DriveCSVFile[] = [];
+  // Folder ids still to list, with their path below the root folder
+  const pending: [string, string][] = [[folderId, ""]];
+  const visited = new Set<string>();
+
+  while (pending.length > 0) {
+    const [current, prefix] = pending.pop()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
 
-  return response.data.files || [];
+    let pageToken: string | undefined;
+    do {
+      const response = await drive.files.list({
+        q: buildQuery(current, options),
+        fields:
+          "nextPageToken, " +
+          "files(id, name, mimeType, createdTime, modifiedTime, size)",
+        orderBy: "createdTime desc",
+        pageSize: 1000,
+        pageToken,
+      });
+
+      for (const file of response.data.files || []) {
+        const filePath = `${prefix}${file.name ?? file.id}`;
+        if (file.mimeType === FOLDER_MIME_TYPE) {
+          if (file.id) pending.push([file.id, `${filePath}/`]);
+        } else {
+          files.push({ ...file, path: filePath });
+        }
+      }
+
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+  }
+
+  // Each folder is sorted by Drive; re-sort once folders are combined
+  return files.sort((a, b) =>
+    (b.createdTime ?? "").localeCompare(a.createdTime ?? "")
+  );
 }
 
 /**
@@ -77,30 +182,86 @@ export async function downloadFile(fileId: string): Promise<string> {
   return response.data as string;
 }
 
+/** Longest Drive keeps a changes channel open. */
+const MAX_WATCH_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** A push-notification channel registered with Drive. */
+export interface DriveWatchChannel {
+  id: string;
+  resourceId: string;
+  /** ISO timestamp after which Drive stops notifying, if it said. */
+  expiration: string | null;
+}
+
 /**
- * Fetch all CSV content from the Pi_Weather_Station folder.
- * Returns an array of raw CSV strings.
+ * Ask Drive to POST to `address` whenever anything the service account
+ * can see changes. The channel covers the whole account, not just the
+ * configured folder, so the receiver has to check the folder itself (the
+ * webhook asks listChangedFiles). Drive echoes `token` in each
+ * notification's X-Goog-Channel-Token header. Channels expire after a
+ * week at most, so this has to be repeated.
  */
-export async function fetchAllCSVData(): Promise<string[]> {
-  const files = await listCSVFiles();
+export async function watchDriveChanges(
+  address: string,
+  token: string
+): Promise<DriveWatchChannel> {
+  const drive = getDriveClient();
 
-  if (files.length === 0) {
-    console.log("No CSV files found in the Google Drive folder.");
-    return [];
+  const start = await drive.changes.getStartPageToken({});
+  if (!start.data.startPageToken) {
+    throw new Error("Drive returned no start page token");
   }
 
-  console.log(`Found ${files.length} CSV files. Downloading...`);
+  const response = await drive.changes.watch({
+    pageToken: start.data.startPageToken,
+    requestBody: {
+      id: randomUUID(),
+      type: "web_hook",
+      address,
+      token,
+      expiration: String(Date.now() + MAX_WATCH_MS),
+    },
+  });
 
-  const contents = await Promise.all(
-    files.map(async (file) => {
-      try {
-        return await downloadFile(file.id!);
-      } catch (error) {
-        console.error(`Failed to download ${file.name}:`, error);
-        return "";
-      }
-    })
-  );
+  const { id, resourceId, expiration } = response.data;
+  return {
+    id: id!,
+    resourceId: resourceId!,
+    expiration: expiration ? new Date(Number(expiration)).toISOString() : null,
+  };
+}
+
+function toSourceFile(f: DriveCSVFile): SourceFile {
+  return {
+    id: f.id!,
+    name: f.name ?? f.id!,
+    path: f.path,
+    modifiedTime: f.modifiedTime ?? null,
+    size: f.size != null ? Number(f.size) : null,
+  };
+}
+
+/**
+ * Google Drive as a WeatherDataSource, reading the folder named by
+ * GOOGLE_DRIVE_FOLDER_ID with listing options taken from the environment.
+ */
+export function createGoogleDriveSource(
+  options: ListCSVOptions = listOptionsFromEnv()
+): WeatherDataSource {
+  return {
+    name: "google-drive",
+
+    async listFiles() {
+      return (await listCSVFiles(options)).map(toSourceFile);
+    },
 
-  return contents.filter((c) => c.length > 0);
+    fetchContent(file) {
+      return downloadFile(file.id);
+    },
+
+    async listChangedFiles(since) {
+      const changed = await listCSVFiles({ ...options, modifiedAfter: since });
+      return changed.map(toSourceFile);
+    },
+  };
 }
@@ -0,0 +1,70 @@
+import {
+  filterChangedFiles,
+  type SourceFile,
+  type WeatherDataSource,
+} from "./data-source";
+import { ConfigError } from "./errors";
+
+/**
+ * One or more CSV files served over plain HTTP(S). Modification time and
+ * size come from HEAD responses when the server provides them.
+ */
+export function createHttpSource(urls: string[]): WeatherDataSource {
+  if (urls.length === 0) {
+    throw new ConfigError(
+      "WEATHER_HTTP_URLS is not set. Provide a comma-separated list of CSV URLs"
+    );
+  }
+
+  async function describe(url: string): Promise<SourceFile> {
+    const pathname = new URL(url).pathname;
+    const name = pathname.split("/").pop() || url;
+
+    try {
+      const res = await fetch(url, { method: "HEAD" });
+      const lastModified = res.headers.get("last-modified");
+      const length = res.headers.get("content-length");
+      return {
+        id: url,
+        name,
+        path: pathname.replace(/^\//, ""),
+        modifiedTime: lastModified
+          ? new Date(lastModified).toISOString()
+          : null,
+        size: length ? Number(length) : null,
+      };
+    } catch {
+      // Servers that reject HEAD still get fetched in full later
+      return {
+        id: url,
+        name,
+        path: pathname.replace(/^\//, ""),
+        modifiedTime: null,
+        size: null,
+      };
+    }
+  }
+
+  async function listFiles() {
+    return Promise.all(urls.map(describe));
+  }
+
+  return {
+    name: "http",
+    listFiles,
+
+    async fetchContent(file) {
+      const res = await fetch(file.id);
+      if (!res.ok) {
+        throw new Error(
+          `GET ${file.id} failed: ${res.status} ${res.statusText}`
+        );
+      }
+      return res.text();
+    },
+
+    async listChangedFiles(since) {
+      return filterChangedFiles(await listFiles(), since);
+    },
+  };
+}
@@ -0,0 +1,243 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { BadRequestError } from "./api";
+import { mergeReadings, parseCSVWithDiagnostics } from "./csv-parser";
+import {
+  fromStored,
+  getStorePath,
+  toStored,
+  writeJSONAtomic,
+  type StoredReading,
+} from "./sync-store";
+import { parseZonedTimestamp } from "./timezone";
+import { ParseDiagnostics, RejectReason, WeatherReading } from "./types";
+
+/** Most readings accepted in one request; the Pi sends a handful at a time. */
+export const MAX_BATCH = 5000;
+
+/** Pushed readings older than this are dropped; Drive has them by then. */
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Bump when the meaning of the stored tuples changes. */
+const INGEST_STORE_VERSION = 1;
+
+/** Maximum number of rejected entries kept as samples per batch. */
+const MAX_REJECT_SAMPLES = 5;
+
+const SENSOR_ID = /^[\w-]+$/;
+
+interface IngestStore {
+  version: number;
+  readings: StoredReading[];
+}
+
+/** A parsed batch, with the same diagnostics a synced file gets. */
+export interface IngestBatch {
+  readings: WeatherReading[];
+  diagnostics: ParseDiagnostics;
+}
+
+/** One reading in a JSON batch. */
+interface JSONReading {
+  /** Epoch ms, an ISO timestamp, or a naive Pi timestamp. */
+  timestamp: number | string;
+  temperature: number;
+  humidity: number;
+  sensor?: string;
+}
+
+/**
+ * Where pushed readings are kept: INGEST_STORE_PATH, or next to the sync
+ * store by default.
+ */
+export function getIngestStorePath(): string {
+  return (
+    process.env.INGEST_STORE_PATH ||
+    path.join(path.dirname(getStorePath()), "ingested.json")
+  );
+}
+
+/** Whether a CSV line could carry `sensor` as its sensor id. */
+function isSensorId(sensor: unknown): sensor is string {
+  return typeof sensor === "string" && SENSOR_ID.test(sensor);
+}
+
+/** Reject sensor ids that a CSV line couldn't carry either. */
+export function assertSensorId(
+  sensor: unknown
+): asserts sensor is string | undefined {
+  if (sensor !== undefined && !isSensorId(sensor)) {
+    throw new BadRequestError(
+      `Invalid sensor ${JSON.stringify(sensor)}: ` +
+        `expected letters, digits, "_" or "-"`
+    );
+  }
+}
+
+/** A JSON batch entry as a reading, or why it can't be one. */
+function readingFrom(
+  entry: Partial<JSONReading> | null,
+  timeZone: string,
+  sensor: string | undefined
+): WeatherReading | RejectReason {
+  const { timestamp: raw, temperature, humidity } = entry ?? {};
+
+  if (typeof raw !== "number" && typeof raw !== "string") {
+    return "invalid-timestamp";
+  }
+  const timestamp =
+    typeof raw === "number"
+      ? new Date(raw)
+      : parseZonedTimestamp(raw, timeZone);
+  if (isNaN(timestamp.getTime())) return "invalid-timestamp";
+
+  if (humidity === undefined) return "missing-humidity";
+  if (temperature === undefined) return "missing-temperature";
+  if (!Number.isFinite(humidity) || !Number.isFinite(temperature)) {
+    return "invalid-number";
+  }
+
+  const readingSensor = entry?.sensor ?? sensor;
+  if (readingSensor !== undefined && !isSensorId(readingSensor)) {
+    return "invalid-sensor";
+  }
+  return readingSensor
+    ? { timestamp, temperature, humidity, sensor: readingSensor }
+    : { timestamp, temperature, humidity };
+}
+
+/**
+ * Parse a JSON batch: an array of {timestamp, temperature, humidity,
+ * sensor?} objects, or the same wrapped as {"readings": [...]}. Unusable
+ * entries are counted like rejected CSV lines, numbered by position.
+ * Naive timestamps are read in `timeZone`, as in the Pi's CSV files.
+ */
+export function parseJSONReadings(
+  body: unknown,
+  timeZone = "UTC",
+  sensor?: string
+): IngestBatch {
+  const entries = Array.isArray(body)
+    ? body
+    : (body as { readings?: unknown } | null)?.readings;
+  if (!Array.isArray(entries)) {
+    throw new BadRequestError(
+      'Expected a JSON array of readings or {"readings": [...]}'
+    );
+  }
+
+  const readings: WeatherReading[] = [];
+  const diagnostics: ParseDiagnostics = {
+    acceptedLines: 0,
+    rejectedLines: 0,
+    rejectReasons: {},
+    samples: [],
+  };
+
+  entries.forEach((entry, i) => {
+    const result = readingFrom(entry, timeZone, sensor);
+    if (typeof result !== "string") {
+      diagnostics.acceptedLines++;
+      readings.push(result);
+      return;
+    }
+
+    diagnostics.rejectedLines++;
+    diagnostics.rejectReasons[result] =
+      (diagnostics.rejectReasons[result] ?? 0) + 1;
+    if (diagnostics.samples.length < MAX_REJECT_SAMPLES) {
+      diagnostics.samples.push({
+        lineNumber: i + 1,
+        reason: result,
+        line: JSON.stringify(entry),
+      });
+    }
+  });
+
+  return { readings, diagnostics };
+}
+
+/**
+ * Parse a pushed batch: JSON when the content type says so, otherwise
+ * lines in the Pi's CSV format. `sensor` applies to readings that don't
+ * name their own.
+ */
+export function parseIngestBody(
+  body: string,
+  contentType: string | null,
+  timeZone = "UTC",
+  sensor?: string
+): IngestBatch {
+  assertSensorId(sensor);
+
+  let batch: IngestBatch;
+  if (contentType?.includes("json")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new BadRequestError("Request body is not valid JSON");
+    }
+    batch = parseJSONReadings(parsed, timeZone, sensor);
+  } else {
+    batch = parseCSVWithDiagnostics(body, timeZone, sensor);
+  }
+
+  const { acceptedLines, rejectedLines } = batch.diagnostics;
+  if (acceptedLines + rejectedLines > MAX_BATCH) {
+    throw new BadRequestError(
+      `Too many readings: send at most ${MAX_BATCH} per request`
+    );
+  }
+  return batch;
+}
+
+async function loadIngestStore(storePath: string): Promise<IngestStore> {
+  try {
+    const store = JSON.parse(await readFile(storePath, "utf8")) as IngestStore;
+    if (store.version === INGEST_STORE_VERSION) return store;
+  } catch {
+    // Missing or unreadable: nothing has been pushed yet
+  }
+  return { version: INGEST_STORE_VERSION, readings: [] };
+}
+
+/** Every reading pushed in the retention window, oldest first. */
+export async function loadIngestedReadings(
+  storePath: string = getIngestStorePath()
+): Promise<WeatherReading[]> {
+  return fromStored((await loadIngestStore(storePath)).readings);
+}
+
+// Requests are handled concurrently, so appends are queued to keep one
+// batch from overwriting another
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+/**
+ * Add pushed readings to the ingest store, skipping ones it already has
+ * and dropping any older than the retention window. Resolves to the
+ * number of new readings that were kept.
+ */
+export function storeIngestedReadings(
+  readings: WeatherReading[],
+  storePath: string = getIngestStorePath(),
+  now = new Date()
+): Promise<number> {
+  const write = pendingWrite.then(async () => {
+    const existing = await loadIngestedReadings(storePath);
+    const cutoff = now.getTime() - RETENTION_MS;
+    const retained = (r: WeatherReading) => r.timestamp.getTime() >= cutoff;
+    const kept = mergeReadings([existing, readings]).filter(retained);
+
+    await writeJSONAtomic(storePath, {
+      version: INGEST_STORE_VERSION,
+      readings: toStored(kept),
+    } satisfies IngestStore);
+
+    // Backfills older than the window are dropped straight away
+    return kept.length - existing.filter(retained).length;
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
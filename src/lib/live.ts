@@ -0,0 +1,128 @@
+import type { DataError } from "./errors";
+import type {
+  SerializedFlaggedReading,
+  SerializedReading,
+  SerializedStats,
+  WeatherData,
+} from "./weather-data";
+
+/** The dashboard's connection to the live stream, as its indicator shows. */
+export type LiveStatus = "connecting" | "live" | "reconnecting" | "offline";
+
+/** Payload of the stream's "update" event: everything since the last one. */
+export interface LiveUpdate {
+  readings: SerializedReading[];
+  flagged: SerializedFlaggedReading[];
+  stats: SerializedStats;
+  sensorStats: Record<string, SerializedStats>;
+  sensors: string[];
+}
+
+/**
+ * How far a client has got: the latest reading it has from each sensor,
+ * as ISO timestamps keyed by sensor id.
+ */
+export type LivePosition = Record<string, string>;
+
+/**
+ * Payload of the stream's "source" event: can the data source be read?
+ * Error messages can name buckets or accounts, so only the kind is sent.
+ */
+export interface SourceStatus {
+  error: Pick<DataError, "kind" | "at"> | null;
+  syncedAt: string | null;
+}
+
+/** Whether `data` came from the data source, fit for any visitor. */
+export function sourceStatus(
+  data: Pick<WeatherData, "error" | "syncedAt">
+): SourceStatus {
+  const { error, syncedAt } = data;
+  return {
+    error: error && { kind: error.kind, at: error.at },
+    syncedAt,
+  };
+}
+
+const BASE_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 60 * 1000;
+
+/**
+ * Wait before reconnect attempt `attempt` (from 0): doubling from a second
+ * up to a minute, less up to half of that at random so that every open tab
+ * doesn't reconnect at the same moment after a deploy.
+ */
+export function reconnectDelay(attempt: number, random = Math.random) {
+  const ceiling = Math.min(MAX_RECONNECT_MS, BASE_RECONNECT_MS * 2 ** attempt);
+  return Math.round(ceiling * (1 - random() / 2));
+}
+
+/** The position of a client that has every reading in `sensorStats`. */
+export function livePosition(
+  sensorStats: Record<string, SerializedStats>
+): LivePosition {
+  return Object.fromEntries(
+    Object.entries(sensorStats).map(([id, s]) => [id, s.lastUpdated])
+  );
+}
+
+/**
+ * What a client at `since` is missing, or null when it is up to date.
+ * Each sensor is followed separately, so one whose readings arrive late
+ * (say, only with the next Drive upload) isn't skipped because another
+ * has pushed newer ones. Sensors new to the client start from the
+ * earliest position it has.
+ */
+export function liveUpdateSince(
+  data: Pick<
+    WeatherData,
+    "readings" | "flagged" | "stats" | "sensorStats" | "sensors"
+  >,
+  since: LivePosition
+): LiveUpdate | null {
+  if (!data.stats) return null;
+
+  // ISO strings in the same zone compare chronologically
+  const floor = Object.values(since).sort()[0] ?? "";
+  const isNew = (r: SerializedReading) =>
+    r.timestamp > (since[r.sensor] ?? floor);
+
+  const readings = data.readings.filter(isNew);
+  if (readings.length === 0) return null;
+
+  return {
+    readings,
+    flagged: data.flagged.filter(isNew),
+    stats: data.stats,
+    sensorStats: data.sensorStats,
+    sensors: data.sensors,
+  };
+}
+
+/**
+ * Add streamed readings to those already shown, skipping any already
+ * there and dropping those before `cutoff` (an ISO timestamp) so a tab
+ * left open doesn't grow without bound. Keeps time order.
+ */
+export function appendReadings<T extends SerializedReading>(
+  current: T[],
+  incoming: T[],
+  cutoff?: string
+): T[] {
+  const key = (r: SerializedReading) => `${r.sensor}|${r.timestamp}`;
+  const seen = new Set(current.map(key));
+  const added = incoming.filter((r) => !seen.has(key(r)));
+
+  return [...current, ...added]
+    .filter((r) => !cutoff || r.timestamp >= cutoff)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/** One Server-Sent Events message. */
+export function sseMessage(event: string, data: unknown, id?: string) {
+  return (
+    `event: ${event}\n` +
+    (id ? `id: ${id}\n` : "") +
+    `data: ${JSON.stringify(data)}\n\n`
+  );
+}
@@ -0,0 +1,48 @@
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import {
+  filterChangedFiles,
+  type SourceFile,
+  type WeatherDataSource,
+} from "./data-source";
+
+/**
+ * A directory of CSV files on the local filesystem — useful when the
+ * dashboard runs on the Pi itself, or in tests and CI without Drive access.
+ */
+export function createLocalSource(directory: string): WeatherDataSource {
+  const root = path.resolve(directory);
+
+  async function listFiles(): Promise<SourceFile[]> {
+    const entries = await readdir(root, { withFileTypes: true });
+    const csvNames = entries
+      .filter((e) => e.isFile() && e.name.toLowerCase().endsWith(".csv"))
+      .map((e) => e.name);
+
+    return Promise.all(
+      csvNames.map(async (name) => {
+        const info = await stat(path.join(root, name));
+        return {
+          id: name,
+          name,
+          path: name,
+          modifiedTime: info.mtime.toISOString(),
+          size: info.size,
+        };
+      })
+    );
+  }
+
+  return {
+    name: "local",
+    listFiles,
+
+    fetchContent(file) {
+      return readFile(path.join(root, file.id), "utf8");
+    },
+
+    async listChangedFiles(since) {
+      return filterChangedFiles(await listFiles(), since);
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import nodemailer from "nodemailer";
+import type { AlertTransition } from "./alerts";
+
+/** A channel that alert transitions are sent to. */
+export interface Notifier {
+  readonly name: string;
+  send(transition: AlertTransition): Promise<void>;
+}
+
+function subjectFor(t: AlertTransition): string {
+  return t.kind === "triggered"
+    ? `Alert: ${t.message}`
+    : `Resolved: ${t.message}`;
+}
+
+/**
+ * POST each transition as JSON to a URL (ALERT_WEBHOOK_URL).
+ */
+export function createWebhookNotifier(url: string): Notifier {
+  return {
+    name: "webhook",
+    async send(t) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind: t.kind,
+          ruleId: t.rule.id,
+          rule: t.rule,
+          sensor: t.sensor ?? null,
+          message: t.message,
+          value: t.value,
+          since: t.since?.toISOString() ?? null,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(`Webhook responded ${res.status} ${res.statusText}`);
+      }
+    },
+  };
+}
+
+/**
+ * Publish to an ntfy-style topic URL (NTFY_URL, e.g. https://ntfy.sh/room),
+ * optionally authenticated with NTFY_TOKEN.
+ */
+export function createNtfyNotifier(url: string, token?: string): Notifier {
+  return {
+    name: "ntfy",
+    async send(t) {
+      const headers: Record<string, string> = {
+        Title: subjectFor(t),
+        Tags: t.kind === "triggered" ? "warning" : "white_check_mark",
+        Priority: t.kind === "triggered" ? "high" : "default",
+      };
+      if (token) headers.Authorization = `Bearer ${token}`;
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: t.message,
+      });
+      if (!res.ok) {
+        throw new Error(`ntfy responded ${res.status} ${res.statusText}`);
+      }
+    },
+  };
+}
+
+export interface EmailConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Send an email per transition over SMTP.
+ */
+export function createEmailNotifier(config: EmailConfig): Notifier {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: "email",
+    async send(t) {
+      await transport.sendMail({
+        from: config.from,
+        to: config.to,
+        subject: `[insidemyroom] ${subjectFor(t)}`,
+        text:
+          `${t.message}\n\n` +
+          (t.since ? `Condition holding since ${t.since.toISOString()}\n` : ""),
+      });
+    },
+  };
+}
+
+/**
+ * Build every notifier whose configuration is present in the environment.
+ */
+export function getNotifiers(): Notifier[] {
+  const notifiers: Notifier[] = [];
+  const env = process.env;
+
+  if (env.ALERT_WEBHOOK_URL) {
+    notifiers.push(createWebhookNotifier(env.ALERT_WEBHOOK_URL));
+  }
+
+  if (env.NTFY_URL) {
+    notifiers.push(createNtfyNotifier(env.NTFY_URL, env.NTFY_TOKEN));
+  }
+
+  if (env.SMTP_HOST && env.ALERT_EMAIL_TO) {
+    notifiers.push(
+      createEmailNotifier({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT || 587),
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+        from: env.ALERT_EMAIL_FROM || env.SMTP_USER || "insidemyroom@localhost",
+        to: env.ALERT_EMAIL_TO,
+      })
+    );
+  }
+
+  return notifiers;
+}
+
+/**
+ * Send every transition to every notifier. A failing channel is logged and
+ * doesn't stop the others.
+ */
+export async function dispatchAlerts(
+  transitions: AlertTransition[],
+  notifiers: Notifier[]
+): Promise<void> {
+  const sends = transitions.flatMap((t) =>
+    notifiers.map(async (n) => {
+      try {
+        await n.send(t);
+      } catch (error) {
+        console.error(`Failed to send ${t.kind} alert via ${n.name}:`, error);
+      }
+    })
+  );
+  await Promise.all(sends);
+}
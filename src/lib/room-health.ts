@@ -0,0 +1,161 @@
+import { toDateKey } from "./timezone";
+import { WeatherReading } from "./types";
+
+/** Humidity above which mold can start growing on cool surfaces. */
+export const MOLD_RISK_HUMIDITY = 70;
+
+/** ASHRAE-style comfort box. */
+export const COMFORT_ZONE = {
+  minTemperature: 20,
+  maxTemperature: 24,
+  minHumidity: 40,
+  maxHumidity: 60,
+};
+
+/** Room health over a span of readings. */
+export interface RoomHealth {
+  /** 0–100: half comfort-zone share, half time out of mold risk. */
+  score: number;
+  /** Hours spent above MOLD_RISK_HUMIDITY. */
+  hoursAboveMoldRisk: number;
+  /** Longest unbroken run above MOLD_RISK_HUMIDITY, in hours. */
+  longestDampHours: number;
+  /** Run above MOLD_RISK_HUMIDITY still going at the latest reading. */
+  currentDampHours: number;
+  /** Share of time inside COMFORT_ZONE, 0–100. */
+  comfortPercent: number;
+  /** Hours of readings the figures are based on. */
+  coveredHours: number;
+}
+
+/** RoomHealth for one calendar week (Monday start, station time zone). */
+export interface WeeklyHealth extends RoomHealth {
+  weekStart: string; // YYYY-MM-DD
+}
+
+export interface RoomHealthReport {
+  /** The 7 days up to the latest reading. */
+  current: RoomHealth;
+  /** Oldest first, ending with the week of the latest reading. */
+  weekly: WeeklyHealth[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A reading stands for the time until the next one, but no longer than
+// this, so a logger outage doesn't count as hours of mold risk
+const MAX_SAMPLE_MS = 15 * 60 * 1000;
+// The Pi's cadence, used for the last reading of a span
+const NOMINAL_SAMPLE_MS = 5 * 60 * 1000;
+
+const WEEKS_SHOWN = 8;
+
+function hours(ms: number): number {
+  return +(ms / HOUR_MS).toFixed(1);
+}
+
+function isDamp(r: WeatherReading): boolean {
+  return r.humidity > MOLD_RISK_HUMIDITY;
+}
+
+function isComfortable(r: WeatherReading): boolean {
+  return (
+    r.temperature >= COMFORT_ZONE.minTemperature &&
+    r.temperature <= COMFORT_ZONE.maxTemperature &&
+    r.humidity >= COMFORT_ZONE.minHumidity &&
+    r.humidity <= COMFORT_ZONE.maxHumidity
+  );
+}
+
+/**
+ * Score chronologically sorted readings from a single sensor. Returns null
+ * for an empty span.
+ */
+export function computeRoomHealth(
+  readings: WeatherReading[]
+): RoomHealth | null {
+  if (readings.length === 0) return null;
+
+  let covered = 0;
+  let damp = 0;
+  let comfortable = 0;
+  let run = 0;
+  let longest = 0;
+
+  readings.forEach((r, i) => {
+    const next = readings[i + 1];
+    const gap = next
+      ? next.timestamp.getTime() - r.timestamp.getTime()
+      : NOMINAL_SAMPLE_MS;
+    const weight = Math.min(gap, MAX_SAMPLE_MS);
+
+    covered += weight;
+    if (isComfortable(r)) comfortable += weight;
+
+    if (isDamp(r)) {
+      damp += weight;
+      run += weight;
+      longest = Math.max(longest, run);
+      // An outage ends the run; we can't know the room stayed damp
+      if (gap > MAX_SAMPLE_MS) run = 0;
+    } else {
+      run = 0;
+    }
+  });
+
+  const comfortShare = comfortable / covered;
+  const dampShare = damp / covered;
+
+  return {
+    score: Math.round(100 * (0.5 * comfortShare + 0.5 * (1 - dampShare))),
+    hoursAboveMoldRisk: hours(damp),
+    longestDampHours: hours(longest),
+    currentDampHours: hours(run),
+    comfortPercent: Math.round(100 * comfortShare),
+    coveredHours: hours(covered),
+  };
+}
+
+/** Monday of the week containing `date`, as YYYY-MM-DD in `timeZone`. */
+function weekStartKey(date: Date, timeZone: string): string {
+  const day = new Date(`${toDateKey(date, timeZone)}T00:00:00Z`);
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Room health for the last 7 days of readings plus a weekly trend.
+ * Expects chronologically sorted readings from a single sensor.
+ */
+export function computeRoomHealthReport(
+  readings: WeatherReading[],
+  timeZone = "UTC"
+): RoomHealthReport | null {
+  if (readings.length === 0) return null;
+
+  const latest = readings[readings.length - 1].timestamp.getTime();
+  const current = computeRoomHealth(
+    readings.filter((r) => r.timestamp.getTime() > latest - 7 * DAY_MS)
+  )!;
+
+  const weeks = new Map<string, WeatherReading[]>();
+  for (const r of readings) {
+    const key = weekStartKey(r.timestamp, timeZone);
+    const week = weeks.get(key);
+    if (week) week.push(r);
+    else weeks.set(key, [r]);
+  }
+
+  const weekly = [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-WEEKS_SHOWN)
+    .map(([weekStart, week]) => ({
+      weekStart,
+      ...computeRoomHealth(week)!,
+    }));
+
+  return { current, weekly };
+}
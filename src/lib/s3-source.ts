@@ -0,0 +1,94 @@
+import {
+  S3Client,
+  ListObjectsV2Command,
+  GetObjectCommand,
+} from "@aws-sdk/client-s3";
+import {
+  filterChangedFiles,
+  type SourceFile,
+  type WeatherDataSource,
+} from "./data-source";
+import { ConfigError } from "./errors";
+
+export interface S3SourceConfig {
+  bucket: string;
+  prefix?: string;
+  region?: string;
+  endpoint?: string; // Set for S3-compatible stores (MinIO, R2, B2, ...)
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * CSV files stored under a prefix in an S3-compatible bucket.
+ */
+export function createS3Source(config: S3SourceConfig): WeatherDataSource {
+  if (!config.bucket) {
+    throw new ConfigError("S3_BUCKET environment variable is not set");
+  }
+
+  const client = new S3Client({
+    region: config.region || "us-east-1",
+    endpoint: config.endpoint,
+    // Most non-AWS S3 implementations only support path-style URLs
+    forcePathStyle: Boolean(config.endpoint),
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? {
+            accessKeyId: config.accessKeyId,
+            secretAccessKey: config.secretAccessKey,
+          }
+        : undefined,
+  });
+
+  async function listFiles(): Promise<SourceFile[]> {
+    const files: SourceFile[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await client.send(
+        new ListObjectsV2Command({
+          Bucket: config.bucket,
+          Prefix: config.prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const obj of page.Contents ?? []) {
+        if (!obj.Key || !obj.Key.toLowerCase().endsWith(".csv")) continue;
+        const relative = config.prefix
+          ? obj.Key.slice(config.prefix.length).replace(/^\//, "")
+          : obj.Key;
+        files.push({
+          id: obj.Key,
+          name: obj.Key.split("/").pop() || obj.Key,
+          path: relative,
+          modifiedTime: obj.LastModified?.toISOString() ?? null,
+          size: obj.Size ?? null,
+        });
+      }
+
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  return {
+    name: "s3",
+    listFiles,
+
+    async fetchContent(file) {
+      const res = await client.send(
+        new GetObjectCommand({ Bucket: config.bucket, Key: file.id })
+      );
+      return (await res.Body?.transformToString("utf-8")) ?? "";
+    },
+
+    async listChangedFiles(since) {
+      return filterChangedFiles(await listFiles(), since);
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Cookie marking the owner's browser as allowed to refresh the data. It
+ * is httpOnly and only grants /api/revalidate, so no secret that opens
+ * anything else is ever kept in the browser.
+ */
+export const REFRESH_COOKIE = "insidemyroom-refresh";
+
+/** How long a sign-in lasts, in seconds. */
+export const REFRESH_SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+function sign(expires: string, secret: string) {
+  return createHmac("sha256", secret).update(expires).digest("base64url");
+}
+
+/**
+ * A session value that expires REFRESH_SESSION_MAX_AGE from `now`, signed
+ * with `secret` (REFRESH_TOKEN). Changing the secret signs everyone out.
+ */
+export function createRefreshSession(secret: string, now = Date.now()) {
+  const expires = String(now + REFRESH_SESSION_MAX_AGE * 1000);
+  return `${expires}.${sign(expires, secret)}`;
+}
+
+/** Whether `value` is an unexpired session signed with `secret`. */
+export function isRefreshSession(
+  value: string | undefined,
+  secret: string | undefined,
+  now = Date.now()
+): boolean {
+  if (!value || !secret) return false;
+
+  const [expires, signature] = value.split(".");
+  if (!expires || !signature || Number(expires) <= now) return false;
+
+  const expected = Buffer.from(sign(expires, secret));
+  const provided = Buffer.from(signature);
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
@@ -0,0 +1,342 @@
+import { randomBytes } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { parseCSVWithDiagnostics } from "./csv-parser";
+import type { SourceFile, WeatherDataSource } from "./data-source";
+import { toDataError, type DataError } from "./errors";
+import { getSourceTimeZone } from "./timezone";
+import { FileReport, ParseDiagnostics, WeatherReading } from "./types";
+
+/**
+ * Bump whenever parseCSV's output for the same input changes, so that
+ * readings parsed by an older version are re-downloaded and re-parsed.
+ */
+const STORE_VERSION = 5;
+
+/**
+ * Compact reading tuple: [epoch ms, temperature °C, humidity %], plus the
+ * sensor id when the line itself named one.
+ */
+export type StoredReading = [number, number, number, string?];
+
+interface StoredFile {
+  id: string;
+  name: string;
+  path?: string;
+  modifiedTime: string | null;
+  size: number | null;
+  readings: StoredReading[];
+  diagnostics: ParseDiagnostics;
+}
+
+export interface SyncStore {
+  version: number;
+  /** Source time zone the stored readings were parsed with. */
+  timeZone: string;
+  /** When the source was last listed successfully (ISO timestamp). */
+  syncedAt?: string;
+  files: Record<string, StoredFile>;
+}
+
+export interface SyncResult {
+  /** Parsed readings, one array per source file. */
+  readings: WeatherReading[][];
+  /** Number of files downloaded and parsed in this sync. */
+  downloaded: number;
+  /** Number of files served from the store without downloading. */
+  reused: number;
+  /** Per-file parse diagnostics and download errors. */
+  files: FileReport[];
+  /** When the source was last listed successfully; null if never. */
+  syncedAt: string | null;
+  /** Why a file couldn't be downloaded, if any couldn't. */
+  error: DataError | null;
+}
+
+/**
+ * Where the store lives. Defaults to the OS temp directory, which is the
+ * only writable location on most serverless hosts.
+ */
+export function getStorePath(): string {
+  return (
+    process.env.WEATHER_STORE_PATH ||
+    path.join(os.tmpdir(), "insidemyroom", "sync-store.json")
+  );
+}
+
+function emptyStore(): SyncStore {
+  return { version: STORE_VERSION, timeZone: "UTC", files: {} };
+}
+
+/**
+ * Load the store from disk. A missing, unreadable or outdated store is
+ * treated as empty, which simply causes a full sync.
+ */
+export async function loadStore(storePath: string): Promise<SyncStore> {
+  try {
+    const store = JSON.parse(await readFile(storePath, "utf8")) as SyncStore;
+    return store.version === STORE_VERSION ? store : emptyStore();
+  } catch {
+    return emptyStore();
+  }
+}
+
+// Downloads in flight at once; a first sync of a large archive would
+// otherwise request every file together and run into the source's quota
+const MAX_CONCURRENT_DOWNLOADS = 4;
+
+/** Run `task` for each item, at most `limit` at a time. */
+async function forEachLimited<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+}
+
+/**
+ * Write JSON to `filePath` via a temp file, so a crash mid-write never
+ * leaves a truncated file behind.
+ */
+export async function writeJSONAtomic(
+  filePath: string,
+  value: unknown
+): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  // Unique per write, so concurrent writes don't share a temp file
+  const suffix = `${process.pid}.${randomBytes(6).toString("hex")}`;
+  const tmpPath = `${filePath}.${suffix}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(value));
+  await rename(tmpPath, filePath);
+}
+
+/** Persist the store atomically. */
+export async function saveStore(
+  storePath: string,
+  store: SyncStore
+): Promise<void> {
+  await writeJSONAtomic(storePath, store);
+}
+
+/**
+ * A stored file can be reused when the source still reports the same
+ * modification time and size for it.
+ */
+function isUnchanged(stored: StoredFile | undefined, file: SourceFile) {
+  return (
+    stored !== undefined &&
+    file.modifiedTime !== null &&
+    stored.modifiedTime === file.modifiedTime &&
+    stored.size === file.size
+  );
+}
+
+/**
+ * Sensor id implied by a file's location, using the SENSOR_PATTERN regex:
+ * its first capture group, matched against the file's path. For example
+ * "^([^/]+)/" takes the folder name and "^(\\w+)_" a filename prefix.
+ * Returns undefined when no pattern is set or it doesn't match.
+ */
+export function sensorForFile(
+  file: Pick<SourceFile, "name" | "path">,
+  pattern: string | undefined = process.env.SENSOR_PATTERN
+): string | undefined {
+  if (!pattern) return undefined;
+  return new RegExp(pattern).exec(file.path ?? file.name)?.[1] || undefined;
+}
+
+export function toStored(readings: WeatherReading[]): StoredReading[] {
+  return readings.map((r) =>
+    r.sensor === undefined
+      ? [r.timestamp.getTime(), r.temperature, r.humidity]
+      : [r.timestamp.getTime(), r.temperature, r.humidity, r.sensor]
+  );
+}
+
+/**
+ * Expand stored tuples into readings, giving `fallbackSensor` to those
+ * that didn't name a sensor themselves.
+ */
+export function fromStored(
+  tuples: StoredReading[],
+  fallbackSensor?: string
+): WeatherReading[] {
+  return tuples.map(([time, temperature, humidity, sensor]) => {
+    const reading: WeatherReading = {
+      timestamp: new Date(time),
+      temperature,
+      humidity,
+    };
+    const resolved = sensor ?? fallbackSensor;
+    if (resolved !== undefined) reading.sensor = resolved;
+    return reading;
+  });
+}
+
+/**
+ * A stored file's readings. The file's sensor (from SENSOR_PATTERN) is
+ * applied here rather than at parse time, so changing the pattern doesn't
+ * require re-downloading anything.
+ */
+function fileReadings(file: StoredFile): WeatherReading[] {
+  return fromStored(file.readings, sensorForFile(file));
+}
+
+/**
+ * Bring the store up to date with the source, downloading and parsing only
+ * files that are new or whose modifiedTime/size changed. Files that have
+ * disappeared from the source are dropped. If a download fails, the
+ * previously stored copy of that file (if any) is kept and the result's
+ * error says why. Naive timestamps are read in `timeZone`.
+ */
+export async function syncFromSource(
+  source: WeatherDataSource,
+  store: SyncStore,
+  timeZone: string = getSourceTimeZone()
+): Promise<{ store: SyncStore; result: SyncResult }> {
+  const files = await source.listFiles();
+  const syncedAt = new Date().toISOString();
+  const next: SyncStore = {
+    version: STORE_VERSION,
+    timeZone,
+    syncedAt,
+    files: {},
+  };
+  // Readings parsed under a different source time zone are all stale
+  const previous = store.timeZone === timeZone ? store.files : {};
+  const downloadErrors = new Map<string, string>();
+  let downloadFailure: DataError | null = null;
+  let downloaded = 0;
+  let reused = 0;
+
+  await forEachLimited(files, MAX_CONCURRENT_DOWNLOADS, async (file) => {
+    const stored = previous[file.id];
+
+    if (isUnchanged(stored, file)) {
+      next.files[file.id] = stored!;
+      reused++;
+      return;
+    }
+
+    try {
+      const content = await source.fetchContent(file);
+      const { readings, diagnostics } = parseCSVWithDiagnostics(
+        content,
+        timeZone
+      );
+      next.files[file.id] = {
+        id: file.id,
+        name: file.name,
+        path: file.path,
+        modifiedTime: file.modifiedTime,
+        size: file.size,
+        readings: toStored(readings),
+        diagnostics,
+      };
+      downloaded++;
+    } catch (error) {
+      console.error(`Failed to download ${file.name}:`, error);
+      const failure = toDataError(error);
+      downloadFailure ??= failure;
+      downloadErrors.set(file.id, failure.message);
+      if (stored) next.files[file.id] = stored;
+    }
+  });
+
+  const reports: FileReport[] = files.map((file) => ({
+    id: file.id,
+    name: file.name,
+    modifiedTime: file.modifiedTime,
+    size: file.size,
+    diagnostics: next.files[file.id]?.diagnostics ?? null,
+    downloadError: downloadErrors.get(file.id) ?? null,
+  }));
+
+  console.log(
+    `Synced ${files.length} CSV files from ${source.name}: ` +
+      `${downloaded} downloaded, ${reused} unchanged.`
+  );
+
+  return {
+    store: next,
+    result: {
+      readings: Object.values(next.files).map(fileReadings),
+      downloaded,
+      reused,
+      files: reports,
+      syncedAt,
+      error: downloadFailure,
+    },
+  };
+}
+
+/**
+ * Load the persistent store, sync it against the source and save it back.
+ */
+export async function syncReadings(
+  source: WeatherDataSource,
+  storePath: string = getStorePath()
+): Promise<SyncResult> {
+  const { store, result } = await syncFromSource(
+    source,
+    await loadStore(storePath)
+  );
+
+  try {
+    await saveStore(storePath, store);
+  } catch (error) {
+    // A read-only filesystem only costs us the next sync's head start
+    console.error("Failed to save sync store:", error);
+  }
+
+  return result;
+}
+
+/**
+ * The readings as of the last successful sync, straight from the store,
+ * for when the source can't be reached.
+ */
+export async function loadStoredReadings(
+  storePath: string = getStorePath()
+): Promise<SyncResult> {
+  const store = await loadStore(storePath);
+  const stored = Object.values(store.files);
+
+  return {
+    readings: stored.map(fileReadings),
+    downloaded: 0,
+    reused: stored.length,
+    files: stored.map((file) => ({
+      id: file.id,
+      name: file.name,
+      modifiedTime: file.modifiedTime,
+      size: file.size,
+      diagnostics: file.diagnostics,
+      downloadError: null,
+    })),
+    syncedAt: store.syncedAt ?? null,
+    error: null,
+  };
+}
+
+/**
+ * Whether the source reports files created or modified since the last
+ * sync recorded in the store; always true before the first one. Cheaper
+ * than a sync, so change notifications can be checked before refreshing.
+ * Deleted files aren't reported, and wait for the next scheduled sync.
+ */
+export async function hasChangesSinceSync(
+  source: WeatherDataSource,
+  storePath: string = getStorePath()
+): Promise<boolean> {
+  const { syncedAt } = await loadStore(storePath);
+  if (!syncedAt) return true;
+  return (await source.listChangedFiles(new Date(syncedAt))).length > 0;
+}
@@ -0,0 +1,52 @@
+import { averageByDay, averageByInterval } from "./csv-parser";
+import { AggregatedReading, WeatherReading } from "./types";
+
+/** Resolutions the readings API can serve, finest first. */
+export const RESOLUTIONS = ["raw", "15m", "1h", "1d"] as const;
+export type Resolution = (typeof RESOLUTIONS)[number];
+
+/** The pre-aggregated resolutions. */
+export type Tier = Exclude<Resolution, "raw">;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const TIER_MS: Record<Tier, number> = {
+  "15m": 15 * MINUTE_MS,
+  "1h": 60 * MINUTE_MS,
+  "1d": DAY_MS,
+};
+
+/**
+ * Longest span each resolution is used for. At the Pi's 5-minute cadence
+ * these keep a chart at no more than ~3,000 points per sensor.
+ */
+const MAX_SPAN_MS: Record<Exclude<Resolution, "1d">, number> = {
+  raw: 8 * DAY_MS,
+  "15m": 31 * DAY_MS,
+  "1h": 120 * DAY_MS,
+};
+
+/**
+ * Average readings into every tier. Run once per sync so requests for long
+ * ranges are served from the smaller tiers. Daily buckets follow calendar
+ * days in `timeZone` (the station's), matching the daily summaries.
+ */
+export function buildTiers(
+  readings: WeatherReading[],
+  timeZone = "UTC"
+): Record<Tier, AggregatedReading[]> {
+  return {
+    "15m": averageByInterval(readings, TIER_MS["15m"]),
+    "1h": averageByInterval(readings, TIER_MS["1h"]),
+    "1d": averageByDay(readings, timeZone),
+  };
+}
+
+/** The finest resolution that keeps a chart spanning `spanMs` light. */
+export function resolutionForSpan(spanMs: number): Resolution {
+  if (spanMs <= MAX_SPAN_MS.raw) return "raw";
+  if (spanMs <= MAX_SPAN_MS["15m"]) return "15m";
+  if (spanMs <= MAX_SPAN_MS["1h"]) return "1h";
+  return "1d";
+}
@@ -0,0 +1,201 @@
+/**
+ * Time zone helpers built on Intl, so they behave the same regardless of
+ * the time zone the server or browser happens to run in.
+ */
+
+/** Naive logger timestamp, e.g. "2026-02-08 12:00:21" ("T" also allowed). */
+const NAIVE_TIMESTAMP =
+  /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant as seen in the given time zone.
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in milliseconds
+ * (positive east of Greenwich).
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Check that a string names a time zone Intl understands.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Interpret a naive "YYYY-MM-DD HH:mm:ss" timestamp as wall-clock time in
+ * `timeZone` and return the corresponding instant. Strings that already
+ * carry an offset or "Z" are parsed as-is. Returns an invalid Date when
+ * the string can't be parsed.
+ *
+ * Around DST changes, wall-clock times skipped by a spring-forward are
+ * moved forward by the size of the gap, and times repeated by a fall-back
+ * resolve to their first (daylight-time) occurrence.
+ */
+export function parseZonedTimestamp(value: string, timeZone: string): Date {
+  const m = value.match(NAIVE_TIMESTAMP);
+  if (!m) return new Date(value);
+
+  const [, y, mo, d, h, mi, s = "0", ms = "0"] = m;
+  const wallClock = Date.UTC(
+    Number(y),
+    Number(mo) - 1,
+    Number(d),
+    Number(h),
+    Number(mi),
+    Number(s),
+    Number(ms.padEnd(3, "0"))
+  );
+
+  // Reject out-of-range fields ("2026-02-30") rather than rolling over
+  const check = new Date(wallClock);
+  if (
+    check.getUTCMonth() !== Number(mo) - 1 ||
+    check.getUTCDate() !== Number(d) ||
+    check.getUTCHours() !== Number(h) ||
+    check.getUTCMinutes() !== Number(mi)
+  ) {
+    return new Date(NaN);
+  }
+
+  // The offset can only take one of two values around the wall-clock time:
+  // the one in effect a day before or a day after. Keep the candidates
+  // that map back to the same wall-clock time.
+  const before = getTimeZoneOffset(new Date(wallClock - DAY_MS), timeZone);
+  const after = getTimeZoneOffset(new Date(wallClock + DAY_MS), timeZone);
+  const candidates = [before, after]
+    .map((offset) => ({ offset, instant: wallClock - offset }))
+    .filter(
+      ({ offset, instant }) =>
+        getTimeZoneOffset(new Date(instant), timeZone) === offset
+    )
+    .map(({ instant }) => instant);
+
+  if (candidates.length > 0) return new Date(Math.min(...candidates));
+
+  // Skipped by a spring-forward: the pre-transition offset lands just
+  // past the gap
+  return new Date(wallClock - before);
+}
+
+/**
+ * Format a Date as a YYYY-MM-DD calendar date in the given IANA time zone.
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Calendar date `days` after (or before, if negative) a YYYY-MM-DD date.
+ */
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Number of calendar days from one YYYY-MM-DD date to another (0 when
+ * they are the same day).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+  );
+}
+
+/**
+ * The instant a YYYY-MM-DD calendar date begins in the given time zone.
+ */
+export function startOfDay(dateKey: string, timeZone: string): Date {
+  return parseZonedTimestamp(`${dateKey} 00:00`, timeZone);
+}
+
+/**
+ * Read a time zone from the environment, falling back (with a warning)
+ * when it is unset or not a zone Intl recognizes.
+ */
+function timeZoneFromEnv(name: string, fallback: string): string {
+  const value = process.env[name];
+  if (!value) return fallback;
+
+  if (!isValidTimeZone(value)) {
+    console.warn(
+      `${name}="${value}" is not a valid time zone; using ${fallback}`
+    );
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * IANA time zone of the room the station is in (WEATHER_TIMEZONE). Used for
+ * daily rollups and offered as a display option in the UI. Defaults to UTC.
+ */
+export function getStationTimeZone(): string {
+  return timeZoneFromEnv("WEATHER_TIMEZONE", "UTC");
+}
+
+/**
+ * IANA time zone the Pi writes its naive log timestamps in
+ * (WEATHER_SOURCE_TIMEZONE). Defaults to the station time zone, since the
+ * Pi normally sits in the same room.
+ */
+export function getSourceTimeZone(): string {
+  return timeZoneFromEnv("WEATHER_SOURCE_TIMEZONE", getStationTimeZone());
+}
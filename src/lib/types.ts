@@ -2,6 +2,17 @@ export interface WeatherReading {
   timestamp: Date;
   temperature: number; // Celsius
   humidity: number; // Percentage
+  sensor?: string; // Room/sensor id; unset means DEFAULT_SENSOR
+}
+
+/** Mean of the readings in one time bucket, with their spread. */
+export interface AggregatedReading extends WeatherReading {
+  minTemperature: number;
+  maxTemperature: number;
+  minHumidity: number;
+  maxHumidity: number;
+  /** Number of raw readings in the bucket. */
+  count: number;
 }
 
 export interface DailySummary {
@@ -24,8 +35,58 @@ export interface WeatherStats {
   maxTemperature: number;
   minHumidity: number;
   maxHumidity: number;
+  currentDewPoint: number;
+  avgDewPoint: number;
+  minDewPoint: number;
+  maxDewPoint: number;
+  currentHeatIndex: number;
+  currentHumidex: number;
+  currentAbsoluteHumidity: number;
+  currentVaporPressureDeficit: number;
   totalReadings: number;
   lastUpdated: Date;
 }
 
 export type DateRange = "24h" | "7d" | "30d" | "all";
+
+/** An arbitrary window of whole calendar days, both ends inclusive. */
+export interface CustomDateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+/** Why parseCSV rejected a line. */
+export type RejectReason =
+  | "sensor-error" // e.g. "Failed to read from DHT sensor!"
+  | "missing-comma"
+  | "invalid-timestamp"
+  | "missing-humidity"
+  | "missing-temperature"
+  | "invalid-number"
+  | "invalid-sensor"; // pushed readings only: unusable sensor id
+
+export interface RejectedLine {
+  lineNumber: number; // 1-based
+  reason: RejectReason;
+  line: string;
+}
+
+export interface ParseDiagnostics {
+  acceptedLines: number;
+  rejectedLines: number;
+  rejectReasons: Partial<Record<RejectReason, number>>;
+  /** The first few rejected lines, for eyeballing what went wrong. */
+  samples: RejectedLine[];
+}
+
+/** Sync outcome for one source file, as shown on the status page. */
+export interface FileReport {
+  id: string;
+  name: string;
+  modifiedTime: string | null;
+  size: number | null;
+  /** Null when the file has never been downloaded successfully. */
+  diagnostics: ParseDiagnostics | null;
+  /** Set when the latest download attempt failed. */
+  downloadError: string | null;
+}
@@ -1,12 +1,81 @@
-import { unstable_cache } from "next/cache";
-import { fetchAllCSVData } from "./google-drive";
-import { parseCSV, mergeReadings, computeStats } from "./csv-parser";
+import { EventEmitter } from "events";
+import { revalidateTag, unstable_cache } from "next/cache";
+import { getDataSource } from "./data-source";
+import {
+  loadStoredReadings,
+  syncReadings,
+  type SyncResult,
+} from "./sync-store";
+import { loadIngestedReadings } from "./ingest";
+import { getStationTimeZone } from "./timezone";
+import {
+  checkAlerts,
+  evaluateRules,
+  getAlertRules,
+  toActiveAlerts,
+  type ActiveAlert,
+} from "./alerts";
+import { buildTiers, type Tier } from "./tiers";
+import { compareRecentDays, type PeriodComparison } from "./comparison";
+import { detectOutages, getGapThresholdMs, type Outage } from "./gaps";
+import {
+  ParseError,
+  TRANSIENT_ERRORS,
+  toDataError,
+  type DataError,
+} from "./errors";
+import {
+  applyCalibrations,
+  getCalibrations,
+  type Calibration,
+} from "./calibration";
+import {
+  cleanReadings,
+  getCleaningConfig,
+  type CleanedMetric,
+  type FlagReason,
+  type FlaggedReading,
+} from "./cleaning";
+import {
+  computeRoomHealthReport,
+  type RoomHealthReport,
+} from "./room-health";
+import {
+  mergeReadings,
+  computeStats,
+  computeDailySummaries,
+  groupBySensor,
+  sensorOf,
+} from "./csv-parser";
+import {
+  AggregatedReading,
+  DailySummary,
+  FileReport,
+  WeatherReading,
+  WeatherStats,
+} from "./types";
 
 /** Serialized reading (cache-safe — no Date objects). */
 export interface SerializedReading {
   timestamp: string;
   temperature: number;
   humidity: number;
+  sensor: string;
+}
+
+/** Serialized bucket average from one of the resolution tiers. */
+export interface SerializedAggregate extends SerializedReading {
+  minTemperature: number;
+  maxTemperature: number;
+  minHumidity: number;
+  maxHumidity: number;
+  count: number;
+}
+
+/** Serialized reading removed by the cleaning stage. */
+export interface SerializedFlaggedReading extends SerializedReading {
+  reason: FlagReason;
+  metrics: CleanedMetric[];
 }
 
 /** Serialized stats (cache-safe — no Date objects). */
@@ -19,47 +88,318 @@ export interface SerializedStats {
   maxTemperature: number;
   minHumidity: number;
   maxHumidity: number;
+  currentDewPoint: number;
+  avgDewPoint: number;
+  minDewPoint: number;
+  maxDewPoint: number;
+  currentHeatIndex: number;
+  currentHumidex: number;
+  currentAbsoluteHumidity: number;
+  currentVaporPressureDeficit: number;
   totalReadings: number;
   lastUpdated: string;
 }
 
+/** Everything the dashboard needs, as returned by getWeatherData. */
+export interface WeatherData {
+  readings: SerializedReading[];
+  /** Readings the cleaning stage removed as sensor glitches. */
+  flagged: SerializedFlaggedReading[];
+  /** Readings pre-averaged into 15m / 1h / 1d buckets during sync. */
+  tiers: Record<Tier, SerializedAggregate[]>;
+  stats: SerializedStats | null;
+  /** Sensor ids present in the readings, sorted. */
+  sensors: string[];
+  /** Stats for each sensor on its own, keyed by sensor id. */
+  sensorStats: Record<string, SerializedStats>;
+  /** Mold and comfort scoring, keyed by sensor id. */
+  health: Record<string, RoomHealthReport>;
+  /**
+   * The last 7 days against the 7 before them, keyed by sensor id. Sensors
+   * without readings in both weeks are left out.
+   */
+  weekOverWeek: Record<string, PeriodComparison>;
+  dailySummaries: DailySummary[];
+  /** Per-file sync and parse diagnostics, for the status page. */
+  files: FileReport[];
+  /** Gaps in each sensor's readings, longest first. */
+  outages: Outage[];
+  /** Corrections applied to the readings, oldest first. */
+  calibrations: Calibration[];
+  /** Alert rules currently firing. */
+  alerts: ActiveAlert[];
+  /** When the data source was last read successfully; null if never. */
+  syncedAt: string | null;
+  /**
+   * Why the latest attempt to read the data source failed, if it did. On
+   * transient failures the rest is the data as of `syncedAt`. Files that
+   * failed to download count too, though the rest of the sync is kept.
+   */
+  error: DataError | null;
+}
+
+/** Convert a reading to its cache-safe form. */
+export function serializeReading(r: WeatherReading): SerializedReading {
+  return {
+    timestamp: r.timestamp.toISOString(),
+    temperature: r.temperature,
+    humidity: r.humidity,
+    sensor: sensorOf(r),
+  };
+}
+
+/** Restore Date objects on a reading that came out of the cache. */
+export function deserializeReading(r: SerializedReading): WeatherReading {
+  return {
+    timestamp: new Date(r.timestamp),
+    temperature: r.temperature,
+    humidity: r.humidity,
+    sensor: r.sensor,
+  };
+}
+
+/** Convert a bucket average to its cache-safe form. */
+export function serializeAggregate(r: AggregatedReading): SerializedAggregate {
+  return {
+    ...serializeReading(r),
+    minTemperature: r.minTemperature,
+    maxTemperature: r.maxTemperature,
+    minHumidity: r.minHumidity,
+    maxHumidity: r.maxHumidity,
+    count: r.count,
+  };
+}
+
+/** Restore Date objects on a bucket average that came out of the cache. */
+export function deserializeAggregate(
+  r: SerializedAggregate
+): AggregatedReading {
+  return {
+    ...deserializeReading(r),
+    minTemperature: r.minTemperature,
+    maxTemperature: r.maxTemperature,
+    minHumidity: r.minHumidity,
+    maxHumidity: r.maxHumidity,
+    count: r.count,
+  };
+}
+
+/** Convert a flagged reading to its cache-safe form. */
+export function serializeFlagged(
+  r: FlaggedReading
+): SerializedFlaggedReading {
+  return { ...serializeReading(r), reason: r.reason, metrics: r.metrics };
+}
+
+/** Convert stats to their cache-safe form. */
+export function serializeStats(
+  stats: WeatherStats | null
+): SerializedStats | null {
+  return stats
+    ? {
+        ...stats,
+        lastUpdated: stats.lastUpdated.toISOString(),
+      }
+    : null;
+}
+
+/** Cache tag for getWeatherData, for invalidating it on demand. */
+export const WEATHER_DATA_TAG = "weather-data";
+
+/** What getWeatherData returns when there is nothing to show. */
+const EMPTY_WEATHER_DATA: WeatherData = {
+  readings: [],
+  flagged: [],
+  tiers: { "15m": [], "1h": [], "1d": [] },
+  stats: null,
+  sensors: [],
+  sensorStats: {},
+  health: {},
+  weekOverWeek: {},
+  dailySummaries: [],
+  files: [],
+  outages: [],
+  calibrations: [],
+  alerts: [],
+  syncedAt: null,
+  error: null,
+};
+
+/**
+ * Everything the dashboard shows, from synced and pushed readings. With
+ * `notify` off, alerts are only evaluated: nothing is sent and the alert
+ * state is left alone.
+ */
+async function buildWeatherData(
+  { readings: parsed, files, syncedAt, error }: SyncResult,
+  ingested: WeatherReading[],
+  { notify = true } = {}
+): Promise<WeatherData> {
+  // Calibrate, then drop glitches per file, before they reach stats
+  // and alerts. Both run on every sync, so config changes apply to
+  // stored history too
+  const calibrations = getCalibrations();
+  const cleaning = getCleaningConfig();
+  // Drive files come first, so mergeReadings keeps their copy of any
+  // reading that was also pushed
+  const cleaned = [...parsed, ingested].map((file) =>
+    cleanReadings(applyCalibrations(file, calibrations), cleaning)
+  );
+  const readings = mergeReadings(cleaned.map((c) => c.readings));
+  const flagged = mergeReadings(cleaned.map((c) => c.flagged));
+  const stats = computeStats(readings);
+  const bySensor = groupBySensor(readings);
+  const sensors = [...bySensor.keys()].sort();
+  const stationTimeZone = getStationTimeZone();
+  const sensorStats: Record<string, SerializedStats> = {};
+  const health: Record<string, RoomHealthReport> = {};
+  const weekOverWeek: Record<string, PeriodComparison> = {};
+  for (const [sensor, group] of bySensor) {
+    sensorStats[sensor] = serializeStats(computeStats(group))!;
+    health[sensor] = computeRoomHealthReport(group, stationTimeZone)!;
+    const comparison = compareRecentDays(group);
+    if (comparison) weekOverWeek[sensor] = comparison;
+  }
+  const dailySummaries = computeDailySummaries(readings, stationTimeZone);
+
+  // Notifications go out here, once per sync, not once per page view
+  const alerts = notify
+    ? await checkAlerts(readings)
+    : toActiveAlerts(evaluateRules(getAlertRules(), readings));
+
+  // Serialize immediately — Date objects don't survive JSON caching
+  const serializedReadings = readings.map(serializeReading);
+  const serializedStats = serializeStats(stats);
+  const tiers = buildTiers(readings, stationTimeZone);
+
+  return {
+    readings: serializedReadings,
+    flagged: flagged.map(serializeFlagged),
+    tiers: {
+      "15m": tiers["15m"].map(serializeAggregate),
+      "1h": tiers["1h"].map(serializeAggregate),
+      "1d": tiers["1d"].map(serializeAggregate),
+    },
+    stats: serializedStats,
+    sensors,
+    sensorStats,
+    health,
+    weekOverWeek,
+    dailySummaries,
+    files,
+    outages: detectOutages(readings, getGapThresholdMs()),
+    calibrations,
+    alerts,
+    syncedAt,
+    error,
+  };
+}
+
 /**
- * Fetch, parse, and cache all weather data from Google Drive.
- * Returns already-serialized data (ISO strings for dates) so it
- * survives the JSON round-trip through unstable_cache.
- * Revalidates every 30 minutes (1800 seconds).
+ * Sync with the configured data source and cache the result. Returns
+ * already-serialized data (ISO strings for dates) so it survives the JSON
+ * round-trip through unstable_cache. Revalidates every 30 minutes (1800
+ * seconds), or sooner when WEATHER_DATA_TAG is invalidated. Failures
+ * throw, so they are never cached.
  */
-export const getWeatherData = unstable_cache(
-  async (): Promise<{
-    readings: SerializedReading[];
-    stats: SerializedStats | null;
-  }> => {
+const getCachedWeatherData = unstable_cache(
+  async (): Promise<WeatherData> => {
+    // Only new or modified files are downloaded; the rest come from the
+    // local sync store
+    const [sync, ingested] = await Promise.all([
+      syncReadings(getDataSource()),
+      // Readings the Pi pushed since its last upload to Drive
+      loadIngestedReadings(),
+    ]);
+
     try {
-      const csvContents = await fetchAllCSVData();
-      const parsed = csvContents.map((csv) => parseCSV(csv));
-      const readings = mergeReadings(parsed);
-      const stats = computeStats(readings);
-
-      // Serialize immediately — Date objects don't survive JSON caching
-      const serializedReadings: SerializedReading[] = readings.map((r) => ({
-        timestamp: r.timestamp.toISOString(),
-        temperature: r.temperature,
-        humidity: r.humidity,
-      }));
-
-      const serializedStats: SerializedStats | null = stats
-        ? {
-            ...stats,
-            lastUpdated: stats.lastUpdated.toISOString(),
-          }
-        : null;
-
-      return { readings: serializedReadings, stats: serializedStats };
+      return await buildWeatherData(sync, ingested);
     } catch (error) {
-      console.error("Failed to fetch weather data:", error);
-      return { readings: [], stats: null };
+      throw new ParseError("Failed to process the synced readings", {
+        cause: error,
+      });
     }
   },
   ["weather-data"],
-  { revalidate: 1800 } // 30 minutes
+  { revalidate: 1800, tags: [WEATHER_DATA_TAG] } // 30 minutes
 );
+
+// After a failure, how long to answer with the fallback before trying the
+// data source again, so a rate-limited source isn't hit on every request
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+
+let lastFailure: { at: number; data: WeatherData } | null = null;
+
+/**
+ * What to show when the data source can't be read: on transient failures
+ * (rate limits, network trouble) the readings from the last successful
+ * sync, read back from the sync store; otherwise nothing. Either way the
+ * result says what went wrong.
+ */
+async function fallbackWeatherData(error: unknown): Promise<WeatherData> {
+  const failure = toDataError(error);
+
+  if (TRANSIENT_ERRORS.includes(failure.kind)) {
+    try {
+      const [stored, ingested] = await Promise.all([
+        loadStoredReadings(),
+        loadIngestedReadings(),
+      ]);
+      // Already announced when it was synced; don't notify again
+      const data = await buildWeatherData(stored, ingested, { notify: false });
+      return { ...data, error: failure };
+    } catch (storeError) {
+      console.error("Failed to read the last synced data:", storeError);
+    }
+  }
+
+  return { ...EMPTY_WEATHER_DATA, error: failure };
+}
+
+/**
+ * All weather data, cached (see getCachedWeatherData). When the data
+ * source can't be read the result carries a DataError, along with the
+ * last good data when the failure is likely to pass.
+ */
+export async function getWeatherData(): Promise<WeatherData> {
+  if (lastFailure && Date.now() - lastFailure.at < RETRY_AFTER_MS) {
+    return lastFailure.data;
+  }
+
+  try {
+    const data = await getCachedWeatherData();
+    lastFailure = null;
+    return data;
+  } catch (error) {
+    console.error("Failed to fetch weather data:", error);
+    const data = await fallbackWeatherData(error);
+    lastFailure = { at: Date.now(), data };
+    return data;
+  }
+}
+
+// Tells open live streams in this process to look for new data at once
+// rather than at their next poll
+const refreshEvents = new EventEmitter();
+refreshEvents.setMaxListeners(0);
+
+/**
+ * Invalidate the cached data so the next request syncs again instead of
+ * waiting out the 30-minute revalidate, and let onRefresh listeners know.
+ */
+export function refreshWeatherData() {
+  lastFailure = null;
+  revalidateTag(WEATHER_DATA_TAG, { expire: 0 });
+  refreshEvents.emit("refresh");
+}
+
+/**
+ * Call `listener` after every refreshWeatherData. Returns a function that
+ * unsubscribes it.
+ */
+export function onRefresh(listener: () => void): () => void {
+  refreshEvents.on("refresh", listener);
+  return () => {
+    refreshEvents.off("refresh", listener);
+  };
+}